@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ConversionError } from '../../../../lib/converter';
+import { createConversionStream, GEOJSON_MIME_TYPE, GEOJSON_SEQ_MIME_TYPE } from '../../../../lib/stream';
+import type { InvalidDataPolicy, PropertyMapping, SimplifyAlgorithm, StreamInputFormat, StreamOutputFormat } from '../../../../lib/types';
+
+const INVALID_DATA_POLICIES: InvalidDataPolicy[] = ['keep', 'drop_vertex', 'drop_feature', 'fail'];
+
+// Options come from the query string, since the body is the data itself
+export async function POST(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const flag = (name: string) => params.get(name) === 'true' || params.get(name) === '1';
+  const badRequest = (error: string) => NextResponse.json({ error }, { status: 400 });
+
+  const contentType = request.headers.get('content-type') || '';
+  const input = (params.get('input') || (/ndjson|json-seq|jsonl/.test(contentType) ? 'ndjson' : 'json')) as StreamInputFormat;
+  const output = (params.get('format') || 'geojson') as StreamOutputFormat;
+  const invalidData = (params.get('invalidData') || 'keep') as InvalidDataPolicy;
+  const tolerance = params.has('simplify') ? parseFloat(params.get('simplify')!) : 0;
+  const algorithm = (params.get('simplifyAlgorithm') || 'douglas-peucker') as SimplifyAlgorithm;
+
+  if (input !== 'ndjson' && input !== 'json') {
+    return badRequest(`Invalid input "${input}": Expected "ndjson" or "json"`);
+  }
+  if (output !== 'geojson' && output !== 'geojson-seq') {
+    return badRequest(`Invalid format "${output}": Expected "geojson" or "geojson-seq"`);
+  }
+  if (INVALID_DATA_POLICIES.indexOf(invalidData) === -1) {
+    return badRequest(`Invalid invalidData "${invalidData}": Expected "keep", "drop_vertex", "drop_feature" or "fail"`);
+  }
+  if (!(tolerance >= 0)) {
+    return badRequest('Invalid simplify: Expected a number of metres (0 or more)');
+  }
+  if (algorithm !== 'douglas-peucker' && algorithm !== 'visvalingam') {
+    return badRequest(`Invalid simplifyAlgorithm "${algorithm}": Expected "douglas-peucker" or "visvalingam"`);
+  }
+
+  let propertyMapping: PropertyMapping | undefined;
+  try {
+    propertyMapping = params.has('propertyMapping') ? JSON.parse(params.get('propertyMapping')!) : undefined;
+  } catch (parseError) {
+    return badRequest('Invalid propertyMapping: Expected a JSON object');
+  }
+
+  if (!request.body) {
+    return badRequest('Invalid input: Missing request body');
+  }
+
+  try {
+    const stream = createConversionStream(request.body, {
+      input,
+      output,
+      propertyMapping,
+      rewind: flag('rewind'),
+      invalidData,
+      includeMetrics: flag('includeMetrics'),
+      fixSwappedAxes: flag('fixSwappedAxes'),
+      simplify: tolerance > 0 ? { tolerance, algorithm, preserveTopology: flag('preserveTopology') } : undefined,
+      sourceCrs: params.get('sourceCrs') || undefined,
+      targetCrs: params.get('targetCrs') || undefined
+    });
+
+    return new NextResponse(stream, {
+      headers: {
+        'Content-Type': output === 'geojson-seq' ? GEOJSON_SEQ_MIME_TYPE : GEOJSON_MIME_TYPE,
+        'Content-Disposition': `attachment; filename="stations.${output === 'geojson-seq' ? 'geojsons' : 'geojson'}"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error converting data to GeoJSON:', error);
+    return NextResponse.json(
+      { error: 'Failed to convert data to GeoJSON' },
+      { status: 500 }
+    );
+  }
+}
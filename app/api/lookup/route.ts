@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { convert, ConversionError } from '../../../lib/converter';
+import { resolveCRS, WGS84 } from '../../../lib/crs';
+import { createSpatialIndex, lookupPoints } from '../../../lib/lookup';
+import type { AreaData, FeatureData, GeoJSONResponse, LookupResult } from '../../../lib/types';
+
+// Upper bound on points per request, to stay within the function time limit
+const MAX_POINTS = 10000;
+
+interface LookupResponse {
+  results: LookupResult[];
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      geojson,
+      data,
+      sourceCrs,
+      point,
+      points,
+      maxDistance = 0
+    }: {
+      geojson?: GeoJSONResponse,
+      data?: AreaData[] | FeatureData[],
+      sourceCrs?: string,
+      point?: any,
+      points?: any[],
+      maxDistance?: number
+    } = await request.json();
+
+    if (!geojson && !data) {
+      return NextResponse.json(
+        { error: 'Invalid input: Expected "geojson" (a converted FeatureCollection) or "data" (station data)' },
+        { status: 400 }
+      );
+    }
+    if (geojson && (geojson.type !== 'FeatureCollection' || !Array.isArray(geojson.features))) {
+      return NextResponse.json(
+        { error: 'Invalid geojson: Expected a FeatureCollection' },
+        { status: 400 }
+      );
+    }
+    if (geojson && geojson.crs) {
+      const crsName = geojson.crs.properties && geojson.crs.properties.name;
+      if (typeof crsName !== 'string') {
+        return NextResponse.json(
+          { error: 'Invalid geojson: "crs" must be a named CRS ({ type: "name", properties: { name } })' },
+          { status: 400 }
+        );
+      }
+      if (resolveCRS(crsName) !== WGS84) {
+        return NextResponse.json(
+          { error: 'Invalid geojson: Coordinates must be WGS84 (EPSG:4326)' },
+          { status: 400 }
+        );
+      }
+    }
+
+    const lookupList = points || (point !== undefined ? [point] : null);
+    if (!Array.isArray(lookupList) || lookupList.length === 0) {
+      return NextResponse.json(
+        { error: 'Invalid input: Expected "points" (an array of { lat, lng } or [lng, lat]) or a single "point"' },
+        { status: 400 }
+      );
+    }
+    if (lookupList.length > MAX_POINTS) {
+      return NextResponse.json(
+        { error: `Too many points: ${lookupList.length} (at most ${MAX_POINTS} per request)` },
+        { status: 400 }
+      );
+    }
+    if (typeof maxDistance !== 'number' || !(maxDistance >= 0)) {
+      return NextResponse.json(
+        { error: 'Invalid maxDistance: Expected a number of metres (0 or more)' },
+        { status: 400 }
+      );
+    }
+
+    // Raw station data goes through the same conversion as /api/convert, without the dataset
+    // checks, as the lookup does not return warnings
+    const features = geojson ? geojson.features : convert(data, { sourceCrs, analyzeDataset: false }).geojson.features;
+    const index = createSpatialIndex(features);
+    const body: LookupResponse = { results: lookupPoints(index, lookupList, maxDistance) };
+
+    return NextResponse.json(body);
+
+  } catch (error) {
+    if (error instanceof ConversionError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: error.status }
+      );
+    }
+
+    console.error('Error looking up points:', error);
+    return NextResponse.json(
+      { error: 'Failed to look up points' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,259 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unprefixAreaField } from '../../../lib/converter';
+import { createTransform, resolveCRS, WGS84 } from '../../../lib/crs';
+import { mapPositions, Position } from '../../../lib/geometry';
+import { METRIC_PROPERTIES } from '../../../lib/metrics';
+import { SIMPLESTYLE_PROPERTIES } from '../../../lib/style';
+import type { AreaData, FeatureData, GeoJSONGeometry, GeoJSONResponse } from '../../../lib/types';
+
+type OutputFormat = 'simple' | 'nested';
+type PolygonEncoding = 'string' | 'array';
+type CoordinateKeys = 'lat/long' | 'lat/lng' | 'latitude/longitude' | 'lat/lon';
+
+interface ReverseWarning {
+  featureIndex: number;
+  featureName: string;
+  message: string;
+}
+
+// Field names for each supported coordinate convention (same four the forward conversion accepts)
+const COORDINATE_KEYS: { [format in CoordinateKeys]: { lat: string; lng: string } } = {
+  'lat/long': { lat: 'lat', lng: 'long' },
+  'lat/lng': { lat: 'lat', lng: 'lng' },
+  'latitude/longitude': { lat: 'latitude', lng: 'longitude' },
+  'lat/lon': { lat: 'lat', lng: 'lon' },
+};
+
+// Properties added by the conversion rather than read from the stations: computed metrics and
+// map styling
+const OUTPUT_ONLY_PROPERTIES: string[] = (METRIC_PROPERTIES as string[]).concat(SIMPLESTYLE_PROPERTIES);
+
+// Geometry types that can be converted back to station data
+const REVERSIBLE_TYPES = ['Point', 'LineString', 'Polygon', 'MultiPolygon'];
+
+// Convert [lng, lat] positions back to coordinate objects
+function positionsToPoints(positions: number[][], keys: { lat: string; lng: string }): Array<{ [key: string]: number }> {
+  return positions.map(position => ({ [keys.lat]: position[1], [keys.lng]: position[0] }));
+}
+
+// Convert a GeoJSON ring back to coordinate objects
+function ringToPoints(ring: number[][], keys: { lat: string; lng: string }): Array<{ [key: string]: number }> {
+  const points = positionsToPoints(ring, keys);
+
+  // The forward conversion closes rings, so drop the repeated closing point
+  if (points.length > 1) {
+    const first = ring[0];
+    const last = ring[ring.length - 1];
+    if (first[0] === last[0] && first[1] === last[1]) {
+      points.pop();
+    }
+  }
+
+  return points;
+}
+
+// Convert a Polygon or MultiPolygon back to the polygon field: a flat array of coordinate objects
+// for a single ring, an array of rings (outer ring first, then holes) for a polygon with holes,
+// and an array of polygons for a MultiPolygon. Returns null when there is no outer ring.
+function polygonToPoints(geometry: GeoJSONGeometry, keys: { lat: string; lng: string }): any[] | null {
+  const polygons: number[][][][] = geometry.type === 'MultiPolygon'
+    ? geometry.coordinates as number[][][][]
+    : [geometry.coordinates as number[][][]];
+  const isEmpty = (rings: number[][][]) => !Array.isArray(rings) || rings.length === 0 || !Array.isArray(rings[0]) || rings[0].length === 0;
+  if (polygons.length === 0 || polygons.some(isEmpty)) {
+    return null;
+  }
+
+  const nested = polygons.map(rings => rings.map(ring => ringToPoints(ring, keys)));
+  if (geometry.type === 'MultiPolygon') {
+    return nested;
+  }
+  return nested[0].length === 1 ? nested[0][0] : nested[0];
+}
+
+// The station's geometry field and its coordinate objects, or null when there are no
+// coordinates. A Point becomes a polygon with a single coordinate and a LineString a line; both
+// get a geometry_type so they read back as the same type.
+function toStationGeometry(
+  geometry: GeoJSONGeometry,
+  keys: { lat: string; lng: string }
+): { field: 'polygon' | 'line'; points: any[]; geometryType?: string } | null {
+  const { type, coordinates } = geometry;
+  if (type === 'Point') {
+    return coordinates.length >= 2 ? { field: 'polygon', points: positionsToPoints([coordinates as number[]], keys), geometryType: type } : null;
+  }
+  if (type === 'LineString') {
+    return coordinates.length > 0 ? { field: 'line', points: positionsToPoints(coordinates as number[][], keys), geometryType: type } : null;
+  }
+  const points = polygonToPoints(geometry, keys);
+  return points ? { field: 'polygon', points } : null;
+}
+
+// Feature properties without the ones the conversion added
+function stationProperties(properties: { [key: string]: any }): { [key: string]: any } {
+  const fields: { [key: string]: any } = {};
+  for (const key of Object.keys(properties)) {
+    if (OUTPUT_ONLY_PROPERTIES.indexOf(key) === -1) {
+      fields[key] = properties[key];
+    }
+  }
+  return fields;
+}
+
+// Split station properties into station fields and parent area fields, named as in the source
+function splitProperties(properties: { [key: string]: any }, areaPrefix: string) {
+  const featureFields: { [key: string]: any } = {};
+  const areaFields: { [key: string]: any } = {};
+
+  for (const key of Object.keys(properties)) {
+    if (key.startsWith(areaPrefix)) {
+      areaFields[unprefixAreaField(key, areaPrefix)] = properties[key];
+    } else {
+      featureFields[key] = properties[key];
+    }
+  }
+
+  return { featureFields, areaFields };
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const {
+      geojson,
+      format = 'nested',
+      polygonEncoding = 'string',
+      coordinateKeys = 'lat/long',
+      areaPrefix = 'area_'
+    }: {
+      geojson: GeoJSONResponse,
+      format?: OutputFormat,
+      polygonEncoding?: PolygonEncoding,
+      coordinateKeys?: CoordinateKeys,
+      areaPrefix?: string
+    } = await request.json();
+
+    if (!geojson || geojson.type !== 'FeatureCollection' || !Array.isArray(geojson.features)) {
+      return NextResponse.json(
+        { error: 'Invalid input: Expected a GeoJSON FeatureCollection' },
+        { status: 400 }
+      );
+    }
+
+    // Collections in another CRS (e.g. /api/convert output with a targetCrs) are read back to
+    // lat/lng
+    let toWGS84: ((position: Position) => Position) | null = null;
+    if (geojson.crs) {
+      const crsName = geojson.crs.properties && geojson.crs.properties.name;
+      const crs = resolveCRS(crsName);
+      if (!crs) {
+        return NextResponse.json(
+          { error: `Invalid geojson: Unsupported crs ${JSON.stringify(crsName === undefined ? geojson.crs : crsName)}` },
+          { status: 400 }
+        );
+      }
+      if (crs !== WGS84) {
+        toWGS84 = createTransform(crs, WGS84);
+      }
+    }
+
+    if (format !== 'simple' && format !== 'nested') {
+      return NextResponse.json(
+        { error: `Invalid format "${format}": Expected "simple" or "nested"` },
+        { status: 400 }
+      );
+    }
+
+    if (polygonEncoding !== 'string' && polygonEncoding !== 'array') {
+      return NextResponse.json(
+        { error: `Invalid polygonEncoding "${polygonEncoding}": Expected "string" or "array"` },
+        { status: 400 }
+      );
+    }
+
+    const keys = COORDINATE_KEYS[coordinateKeys];
+    if (!keys) {
+      return NextResponse.json(
+        { error: `Invalid coordinateKeys "${coordinateKeys}": Expected one of ${Object.keys(COORDINATE_KEYS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const warnings: ReverseWarning[] = [];
+    const simpleFeatures: FeatureData[] = [];
+    const areas: AreaData[] = [];
+    const areasByKey: { [key: string]: AreaData } = {};
+
+    geojson.features.forEach((feature, featureIndex) => {
+      const properties = stationProperties(feature.properties || {});
+      const featureName = properties.name !== undefined && properties.name !== null
+        ? String(properties.name)
+        : `Feature ${featureIndex + 1}`;
+
+      const geometry = feature.geometry;
+      if (!geometry || REVERSIBLE_TYPES.indexOf(geometry.type) === -1 || !Array.isArray(geometry.coordinates)) {
+        warnings.push({
+          featureIndex,
+          featureName,
+          message: `Skipped: only ${REVERSIBLE_TYPES.join(', ')} geometries can be converted (got ${geometry ? geometry.type : 'null'})`
+        });
+        return;
+      }
+
+      const stationGeometry = toStationGeometry(toWGS84 ? mapPositions(geometry, toWGS84) : geometry, keys);
+      if (!stationGeometry) {
+        warnings.push({
+          featureIndex,
+          featureName,
+          message: `Skipped: ${geometry.type} has no coordinates`
+        });
+        return;
+      }
+
+      const { field, points, geometryType } = stationGeometry;
+      const geometryFields = {
+        [field]: polygonEncoding === 'string' ? JSON.stringify(points) : points,
+        ...(geometryType ? { geometry_type: geometryType } : {})
+      };
+
+      if (format === 'simple') {
+        simpleFeatures.push({ ...properties, name: featureName, ...geometryFields });
+        return;
+      }
+
+      const { featureFields, areaFields } = splitProperties(properties, areaPrefix);
+
+      // Group stations by their parent area id, falling back to the area name
+      const groupKey = areaFields.id !== undefined
+        ? `id:${areaFields.id}`
+        : areaFields.area_name !== undefined
+          ? `name:${areaFields.area_name}`
+          : 'default';
+
+      let area = areasByKey[groupKey];
+      if (!area) {
+        area = { ...areaFields, area_list: [] };
+        areasByKey[groupKey] = area;
+        areas.push(area);
+      }
+
+      area.area_list.push({ ...featureFields, name: featureName, ...geometryFields });
+    });
+
+    return NextResponse.json({
+      data: format === 'simple' ? simpleFeatures : areas,
+      warnings: warnings.length > 0 ? warnings : undefined
+    }, {
+      headers: {
+        'Content-Type': 'application/json',
+        'Content-Disposition': 'attachment; filename="stations.json"'
+      }
+    });
+
+  } catch (error) {
+    console.error('Error converting GeoJSON to station data:', error);
+    return NextResponse.json(
+      { error: 'Failed to convert GeoJSON to station data' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,14 +1,50 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { getLocale, type Locale } from '../lib/locales';
+import { toKML, KML_MIME_TYPE } from '../lib/kml';
+import { toShapefile, SHAPEFILE_MIME_TYPE } from '../lib/shapefile';
+import { getCSVHeaders, guessCSVMapping } from '../lib/csv';
+import { DATASET_ISSUES } from '../lib/analysis';
+import { createGraticule, getConfiguredBasemap, isValidBasemap, NO_BASEMAP, type Basemap, type BasemapType } from '../lib/basemap';
+import { createTransform, SUPPORTED_CRS, WGS84 } from '../lib/crs';
+import { deleteVertex, getMidpointHandles, getVertexHandles, insertVertex, moveVertex } from '../lib/edit';
+import { getPositions, mapPositions, type Position } from '../lib/geometry';
+import { computeMetrics, featuresBBox, formatArea, formatLength, positionsBBox, summarizeMetrics } from '../lib/metrics';
+import { createSpatialIndex, lookupPoints } from '../lib/lookup';
+import { previewSchemaMapping } from '../lib/schema';
+import { simplifyCollection } from '../lib/simplify';
+import { applySimplestyle, createFeatureStyler, FILL_OPACITY, getStrokeColor, isNumericProperty, type StyleOptions } from '../lib/style';
+import { buildFeatureRows, formatCell, getFilterOptions, getPropertyColumns, queryRows, type TableQuery } from '../lib/table';
+import { appendInputFeature, removeFeatureWarnings, removeInputFeature, revalidateFeatureWarnings, updateInputGeometry } from '../lib/writeback';
+import type {
+  BBox,
+  CoordinateWarning,
+  CSVMapping,
+  GeoJSONFeature,
+  GeoJSONGeometry,
+  GeoJSONResponse,
+  InputFormat,
+  InvalidDataPolicy,
+  LookupResult,
+  OutputFormat,
+  SchemaMapping,
+  SimplifyAlgorithm,
+  ValidationIssue,
+  WarningAction,
+} from '../lib/types';
 import dynamic from 'next/dynamic';
+import markerIcon from 'leaflet/dist/images/marker-icon.png';
+import markerIcon2x from 'leaflet/dist/images/marker-icon-2x.png';
+import markerShadow from 'leaflet/dist/images/marker-shadow.png';
 
 // Dynamically import the map components to avoid SSR issues
 const MapContainer = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.MapContainer })), { ssr: false });
 const TileLayer = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.TileLayer })), { ssr: false });
+const WMSTileLayer = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.WMSTileLayer })), { ssr: false });
 const GeoJSON = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.GeoJSON })), { ssr: false });
+const CircleMarker = dynamic(() => import('react-leaflet').then(mod => ({ default: mod.CircleMarker })), { ssr: false });
 // FitBounds component to automatically fit map to GeoJSON bounds
 function FitBounds({ geojsonData }: { geojsonData: any }) {
   // Import useMap dynamically to avoid SSR issues
@@ -17,13 +53,13 @@ function FitBounds({ geojsonData }: { geojsonData: any }) {
   
   useEffect(() => {
     if (map) {
-      // Fix Leaflet marker icons when map is ready
+      // Fix Leaflet marker icons when map is ready, using the images bundled with the app
       import('leaflet').then((L) => {
         delete (L.default.Icon.Default.prototype as any)._getIconUrl;
         L.default.Icon.Default.mergeOptions({
-          iconRetinaUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon-2x.png',
-          iconUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-icon.png',
-          shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
+          iconRetinaUrl: markerIcon2x.src,
+          iconUrl: markerIcon.src,
+          shadowUrl: markerShadow.src,
         });
       });
     }
@@ -34,9 +70,10 @@ function FitBounds({ geojsonData }: { geojsonData: any }) {
       try {
         // Import Leaflet dynamically to avoid SSR issues
         import('leaflet').then((L) => {
-          // Create a temporary GeoJSON layer to calculate bounds
-          const tempLayer = L.default.geoJSON(geojsonData);
-          const bounds = tempLayer.getBounds();
+          // Use the collection's bbox, or a temporary GeoJSON layer to calculate bounds
+          const bounds = geojsonData.bbox
+            ? L.default.latLngBounds([geojsonData.bbox[1], geojsonData.bbox[0]], [geojsonData.bbox[3], geojsonData.bbox[2]])
+            : L.default.geoJSON(geojsonData).getBounds();
           
           // Check if bounds are valid (not empty)
           if (bounds.isValid()) {
@@ -58,12 +95,180 @@ function FitBounds({ geojsonData }: { geojsonData: any }) {
   return null; // This component doesn't render anything
 }
 
+// Pan and zoom the map to a bbox each time a new one is set
+function FocusBounds({ bbox }: { bbox: BBox | null }) {
+  const useMap = require('react-leaflet').useMap;
+  const map = useMap();
+
+  useEffect(() => {
+    if (bbox && map) {
+      import('leaflet').then((L) => {
+        map.flyToBounds(L.default.latLngBounds([bbox[1], bbox[0]], [bbox[3], bbox[2]]), {
+          padding: [40, 40],
+          maxZoom: 18,
+          duration: 0.8
+        });
+      });
+    }
+  }, [bbox, map]);
+
+  return null;
+}
+
+// Basemap set up for this deployment (see getConfiguredBasemap)
+const CONFIGURED_BASEMAP = getConfiguredBasemap(
+  process.env.NEXT_PUBLIC_MAP_TILE_URL,
+  process.env.NEXT_PUBLIC_MAP_WMS_LAYERS,
+  process.env.NEXT_PUBLIC_MAP_TILE_ATTRIBUTION
+);
+
+// Meridians and parallels with degree labels, redrawn as the map moves, for a map without a
+// basemap
+function CoordinateGrid({ color }: { color: string }) {
+  // Import the Leaflet parts dynamically to avoid SSR issues
+  const { Marker, Polyline, useMap, useMapEvents } = require('react-leaflet');
+  const L = require('leaflet');
+  const map = useMap();
+  const [bounds, setBounds] = useState(() => map.getBounds());
+
+  useMapEvents({
+    moveend: () => setBounds(map.getBounds())
+  });
+
+  const lines = createGraticule([bounds.getWest(), bounds.getSouth(), bounds.getEast(), bounds.getNorth()]);
+  // Meridians are labelled along the bottom of the view, parallels along the left
+  const labelIcon = (label: string) => L.divIcon({
+    className: '',
+    html: `<span style="color:${color};font-size:10px;white-space:nowrap">${label}</span>`,
+    iconSize: [64, 14],
+    iconAnchor: [-2, 14]
+  });
+
+  return (
+    <>
+      {lines.map(line => (
+        <Polyline
+          key={`${line.axis}-${line.value}`}
+          positions={line.positions.map(position => [position[1], position[0]])}
+          pathOptions={{ color, weight: 1, opacity: 0.4, interactive: false }}
+        />
+      ))}
+      {lines.map(line => (
+        <Marker
+          key={`label-${line.axis}-${line.value}`}
+          position={line.axis === 'lng' ? [bounds.getSouth(), line.value] : [line.value, bounds.getWest()]}
+          icon={labelIcon(line.label)}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
+
+// Legend entries shown below the map; categories beyond these are summed up
+const MAX_LEGEND_ENTRIES = 12;
+
+// Marker colours of flagged vertices, the same colour families as the issue badges
+function getIssueColor(issue: ValidationIssue): string {
+  if (issue === 'both_invalid') return '#dc2626';
+  if (issue === 'invalid_json' || issue === 'invalid_wkt' || issue === 'invalid_geometry') return '#9333ea';
+  if (issue === 'invalid_latitude' || issue === 'invalid_longitude' || issue === 'swapped_axes') return '#ea580c';
+  if (DATASET_ISSUES.indexOf(issue) !== -1) return '#db2777';
+  return '#2563eb';
+}
+
+// Input, output and warnings as they were before a map edit, for undo and redo
+interface EditSnapshot {
+  inputData: string;
+  convertedData: string;
+  featureIndexes: number[];
+  validationWarnings: CoordinateWarning[];
+}
+
+// Vertex handles of the selected station, and the polygon being drawn. Drag a vertex to move
+// it, right-click it to delete it, click a midpoint to insert one, click the map to draw.
+function MapEditor({ geometry, drawing, onChange, onDrawPoint }: {
+  geometry: GeoJSONGeometry | null;
+  drawing: Position[] | null;
+  onChange: (geometry: GeoJSONGeometry) => void;
+  onDrawPoint: (position: Position) => void;
+}) {
+  // Import the Leaflet parts dynamically to avoid SSR issues
+  const { Marker, Polyline, CircleMarker: Vertex, useMapEvents } = require('react-leaflet');
+  const L = require('leaflet');
+
+  useMapEvents({
+    click: (event: any) => {
+      if (drawing) onDrawPoint([event.latlng.lng, event.latlng.lat]);
+    }
+  });
+
+  const handleIcon = (size: number, opacity: number) => L.divIcon({
+    className: '',
+    html: `<div style="width:${size}px;height:${size}px;background:#fff;border:2px solid #1e40af;border-radius:50%;opacity:${opacity}"></div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2]
+  });
+  const vertexIcon = handleIcon(12, 1);
+  const midpointIcon = handleIcon(10, 0.6);
+
+  return (
+    <>
+      {geometry && getVertexHandles(geometry).map(handle => (
+        <Marker
+          key={`vertex-${handle.line}-${handle.vertex}`}
+          position={[handle.position[1], handle.position[0]]}
+          icon={vertexIcon}
+          draggable
+          eventHandlers={{
+            dragend: (event: any) => {
+              const { lat, lng } = event.target.getLatLng();
+              onChange(moveVertex(geometry, handle.line, handle.vertex, [lng, lat]));
+            },
+            contextmenu: () => {
+              const next = deleteVertex(geometry, handle.line, handle.vertex);
+              if (next) onChange(next);
+            }
+          }}
+        />
+      ))}
+      {geometry && getMidpointHandles(geometry).map(handle => (
+        <Marker
+          key={`midpoint-${handle.line}-${handle.vertex}`}
+          position={[handle.position[1], handle.position[0]]}
+          icon={midpointIcon}
+          eventHandlers={{
+            click: () => onChange(insertVertex(geometry, handle.line, handle.vertex, handle.position))
+          }}
+        />
+      ))}
+      {drawing && drawing.length > 0 && (
+        <>
+          <Polyline
+            positions={drawing.map(position => [position[1], position[0]])}
+            pathOptions={{ color: '#16a34a', weight: 2, dashArray: '4 4' }}
+          />
+          {drawing.map((position, i) => (
+            <Vertex
+              key={`drawing-${i}`}
+              center={[position[1], position[0]]}
+              radius={4}
+              pathOptions={{ color: '#16a34a', fillColor: '#fff', fillOpacity: 1 }}
+            />
+          ))}
+        </>
+      )}
+    </>
+  );
+}
+
 export default function Home() {
   const searchParams = useSearchParams();
   const router = useRouter();
   
   const [inputData, setInputData] = useState('');
-  const [outputData, setOutputData] = useState('');
+  // GeoJSON text as returned by the API; outputData below adds the live simplification
+  const [convertedData, setConvertedData] = useState('');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [includeMarkers, setIncludeMarkers] = useState(false);
@@ -71,17 +276,46 @@ export default function Home() {
   const [showToast, setShowToast] = useState(false);
   const [locale, setLocale] = useState<Locale>('en');
   const [isDarkMode, setIsDarkMode] = useState(false);
-  const [validationWarnings, setValidationWarnings] = useState<Array<{
-    featureIndex: number;
-    featureName: string;
-    coordinateIndex: number;
-    coordinate: [number, number];
-    issue: 'invalid_latitude' | 'invalid_longitude' | 'both_invalid' | 'invalid_json';
-    message: string;
-  }>>([]);
+  const [validationWarnings, setValidationWarnings] = useState<CoordinateWarning[]>([]);
   const [isInstructionsOpen, setIsInstructionsOpen] = useState(false);
   const [mapKey, setMapKey] = useState(0);
-  const [isMapVisible, setIsMapVisible] = useState(true);
+  const [downloadFormat, setDownloadFormat] = useState<OutputFormat>('geojson');
+  const [kmlGroupByArea, setKmlGroupByArea] = useState(false);
+  const [inputFormat, setInputFormat] = useState<InputFormat>('json');
+  const [csvMapping, setCsvMapping] = useState<Partial<CSVMapping>>({});
+  const [schemaMappingEnabled, setSchemaMappingEnabled] = useState(false);
+  const [schemaMapping, setSchemaMapping] = useState<Partial<SchemaMapping>>({});
+  const [rewindRings, setRewindRings] = useState(false);
+  const [invalidDataPolicy, setInvalidDataPolicy] = useState<InvalidDataPolicy>('keep');
+  const [includeMetrics, setIncludeMetrics] = useState(false);
+  const [fixSwappedAxes, setFixSwappedAxes] = useState(false);
+  const [sourceCrs, setSourceCrs] = useState(WGS84);
+  const [lookupInput, setLookupInput] = useState('');
+  const [lookupDistance, setLookupDistance] = useState(50);
+  const [lookupResult, setLookupResult] = useState<LookupResult | null>(null);
+  const [simplifyTolerance, setSimplifyTolerance] = useState(0);
+  const [simplifyAlgorithm, setSimplifyAlgorithm] = useState<SimplifyAlgorithm>('douglas-peucker');
+  const [preserveTopology, setPreserveTopology] = useState(true);
+  // The conversion result the map is fitted to, so that map edits do not move the view
+  const [fitGeoJSON, setFitGeoJSON] = useState<GeoJSONResponse | null>(null);
+  // Input index of every output feature (-1 for markers), to write map edits back
+  const [featureIndexes, setFeatureIndexes] = useState<number[]>([]);
+  const [editMode, setEditMode] = useState(false);
+  const [selectedFeature, setSelectedFeature] = useState<number | null>(null);
+  const [drawing, setDrawing] = useState<Position[] | null>(null);
+  const [editHistory, setEditHistory] = useState<{ past: EditSnapshot[]; future: EditSnapshot[] }>({ past: [], future: [] });
+  const [editVersion, setEditVersion] = useState(0);
+  // The warning last clicked in the panel or on the map, and the bbox the map flies to for it
+  const [focusedWarning, setFocusedWarning] = useState<number | null>(null);
+  const [focusBBox, setFocusBBox] = useState<BBox | null>(null);
+  const [tableQuery, setTableQuery] = useState<TableQuery>({ search: '', filters: {}, sortColumn: null, sortDirection: 'asc' });
+  const [downloadFilteredOnly, setDownloadFilteredOnly] = useState(false);
+  const [styleOptions, setStyleOptions] = useState<StyleOptions>({ property: null, mode: 'categorical' });
+  const [labelProperty, setLabelProperty] = useState('');
+  const [exportStyle, setExportStyle] = useState(false);
+  const [basemapChoice, setBasemapChoice] = useState<'default' | BasemapType>('default');
+  const [customBasemapUrl, setCustomBasemapUrl] = useState('');
+  const [customWmsLayers, setCustomWmsLayers] = useState('');
   
   const t = getLocale(locale);
 
@@ -103,7 +337,7 @@ export default function Home() {
 
   // Auto-scroll to output container on mobile after successful conversion (API-based)
   useEffect(() => {
-    if (outputData && window.innerWidth < 768) { // Mobile breakpoint
+    if (convertedData && window.innerWidth < 768) { // Mobile breakpoint
       requestAnimationFrame(() => {
         const outputSection = document.querySelector('[data-output-section]');
         if (outputSection) {
@@ -114,25 +348,165 @@ export default function Home() {
         }
       });
     }
-  }, [outputData]);
+  }, [convertedData]);
 
-  // Update map key when output data changes to force re-render
+  // Update map key when a conversion finishes to force re-render
   useEffect(() => {
-    if (outputData) {
+    if (fitGeoJSON) {
       setMapKey(prev => prev + 1);
     }
-  }, [outputData]);
+  }, [fitGeoJSON]);
 
-  // Auto-hide map when warnings appear, auto-show when warnings are cleared
-  useEffect(() => {
-    if (validationWarnings.length > 0) {
-      setIsMapVisible(false);
-    } else {
-      setIsMapVisible(true);
+
+
+
+  // Column names from the CSV header row, used for the column mapping selectors
+  const csvHeaders = useMemo(
+    () => (inputFormat === 'csv' ? getCSVHeaders(inputData) : []),
+    [inputFormat, inputData]
+  );
+
+  // The schema mapping sent with JSON input, once its required paths are filled in
+  const activeSchemaMapping = inputFormat === 'json' && schemaMappingEnabled &&
+    schemaMapping.features && schemaMapping.name && schemaMapping.polygon
+    ? schemaMapping as SchemaMapping
+    : null;
+
+  // How the schema mapping resolves against the input, shown under the path fields
+  const schemaPreview = useMemo(() => {
+    if (!activeSchemaMapping) return null;
+    let data;
+    try {
+      data = JSON.parse(inputData);
+    } catch (error) {
+      return { featureCount: 0, samples: [], error: t.schemaPreviewInvalidJson };
     }
-  }, [validationWarnings]);
+    return previewSchemaMapping(data, activeSchemaMapping);
+  }, [inputData, activeSchemaMapping, t]);
+
+  const convertedGeoJSON = useMemo<GeoJSONResponse | null>(
+    () => (convertedData ? JSON.parse(convertedData) : null),
+    [convertedData]
+  );
+
+  // Simplification runs in the browser so the slider can update the map preview live
+  const simplified = useMemo(
+    () => (convertedGeoJSON && simplifyTolerance > 0
+      ? simplifyCollection(convertedGeoJSON, { tolerance: simplifyTolerance, algorithm: simplifyAlgorithm, preserveTopology })
+      : null),
+    [convertedGeoJSON, simplifyTolerance, simplifyAlgorithm, preserveTopology]
+  );
+  const outputGeoJSON = simplified ? simplified.geojson : convertedGeoJSON;
+  // Edits apply to the unsimplified geometries, so the map shows those while editing
+  const mapGeoJSON = editMode ? convertedGeoJSON : outputGeoJSON;
+  const outputData = useMemo(
+    () => (simplified ? JSON.stringify(simplified.geojson, null, 2) : convertedData),
+    [simplified, convertedData]
+  );
+
+  // Totals shown under the output, computed from the geometries
+  const outputSummary = useMemo(
+    () => (outputGeoJSON ? summarizeMetrics(outputGeoJSON.features) : null),
+    [outputGeoJSON]
+  );
+  const vertexCounts = simplified
+    ? simplified.report.reduce(
+        (totals, entry) => ({ before: totals.before + entry.verticesBefore, after: totals.after + entry.verticesAfter }),
+        { before: 0, after: 0 }
+      )
+    : null;
+
+  // Spatial index for the "test a coordinate" box, rebuilt when the output changes
+  const lookupIndex = useMemo(
+    () => (outputGeoJSON ? createSpatialIndex(outputGeoJSON.features) : null),
+    [outputGeoJSON]
+  );
+  useEffect(() => {
+    setLookupResult(null);
+  }, [lookupIndex]);
+  const highlightedFeatures = lookupResult && outputGeoJSON
+    ? lookupResult.matches.map(match => outputGeoJSON.features[match.featureIndex])
+    : [];
 
+  // Feature table: a row per output feature, narrowed and sorted by the table controls
+  const tableColumns = useMemo(
+    () => (outputGeoJSON ? getPropertyColumns(outputGeoJSON.features) : []),
+    [outputGeoJSON]
+  );
+  const tableRows = useMemo(
+    () => (outputGeoJSON ? buildFeatureRows(outputGeoJSON.features, featureIndexes, validationWarnings) : []),
+    [outputGeoJSON, featureIndexes, validationWarnings]
+  );
+  const tableFilterOptions = useMemo(() => getFilterOptions(tableRows, tableColumns), [tableRows, tableColumns]);
+  const visibleRows = useMemo(() => queryRows(tableRows, tableQuery), [tableRows, tableQuery]);
+
+  // Map colours by the chosen property, until a conversion no longer has that property
+  const featureStyler = useMemo(
+    () => createFeatureStyler(outputGeoJSON ? outputGeoJSON.features : [], {
+      ...styleOptions,
+      property: styleOptions.property && tableColumns.indexOf(styleOptions.property) !== -1 ? styleOptions.property : null
+    }),
+    [outputGeoJSON, styleOptions, tableColumns]
+  );
+  // The basemap picked in the switcher. Until a custom one is complete, the grid is shown instead.
+  const activeBasemap: Basemap = basemapChoice === 'default'
+    ? CONFIGURED_BASEMAP
+    : basemapChoice === 'none'
+      ? NO_BASEMAP
+      : { type: basemapChoice, url: customBasemapUrl.trim(), layers: customWmsLayers.trim() };
+  const isBasemapValid = isValidBasemap(activeBasemap);
+  const showGrid = activeBasemap.type === 'none' || !isBasemapValid;
+
+  const getBaseStyle = (feature: GeoJSONFeature) => {
+    const fill = featureStyler.getColor(feature);
+    return { fillColor: fill, weight: 2, opacity: 1, color: getStrokeColor(fill), fillOpacity: FILL_OPACITY };
+  };
+
+  // Output feature of a warning's station, or -1 when it is a marker or not in the output
+  const getWarningFeature = (warning: CoordinateWarning) =>
+    (warning.featureIndex === -1 ? -1 : featureIndexes.indexOf(warning.featureIndex));
 
+  // Where a warning's vertex lies on the map, or null for geometry-level warnings and for
+  // coordinates out of range. Warnings carry WGS84 coordinates, as validation runs after
+  // reprojection.
+  const getWarningVertex = (warning: CoordinateWarning): Position | null => {
+    if (warning.coordinateIndex === -1) return null;
+    const [lng, lat] = warning.coordinate;
+    return isFinite(lng) && isFinite(lat) && Math.abs(lat) <= 90 && Math.abs(lng) <= 180 ? [lng, lat] : null;
+  };
+
+  // Flagged vertices, drawn as markers in the colour of their issue
+  const flaggedVertices = validationWarnings
+    .map((warning, index) => ({ warning, index, position: getWarningVertex(warning) }))
+    .filter(item => item.position !== null);
+
+  // Stations of the focused warning (both, for an issue between two stations), outlined on the map
+  const focusedFeatures = focusedWarning !== null && validationWarnings[focusedWarning] && mapGeoJSON
+    ? [validationWarnings[focusedWarning].featureIndex, validationWarnings[focusedWarning].relatedFeatureIndex]
+        .map(featureIndex => (featureIndex === undefined || featureIndex === -1 ? -1 : featureIndexes.indexOf(featureIndex)))
+        .filter(index => index !== -1)
+        .map(index => mapGeoJSON.features[index])
+    : [];
+
+  // Overlap regions between stations, drawn over the stations in red
+  const overlapRegions: GeoJSONFeature[] = validationWarnings
+    .filter(warning => warning.overlap)
+    .map(warning => ({ type: 'Feature', properties: { name: warning.featureName, message: warning.message }, geometry: warning.overlap! }));
+  const overlapCollection: GeoJSONResponse = { type: 'FeatureCollection', features: overlapRegions };
+
+  // Keep mapped columns that still exist in the header, and guess the rest
+  useEffect(() => {
+    if (csvHeaders.length === 0) return;
+    setCsvMapping(prev => {
+      const guessed = guessCSVMapping(csvHeaders);
+      const next: Partial<CSVMapping> = {};
+      (['group', 'name', 'sequence', 'lat', 'lng'] as Array<keyof CSVMapping>).forEach(field => {
+        const current = prev[field];
+        next[field] = current && csvHeaders.indexOf(current) !== -1 ? current : guessed[field];
+      });
+      return next;
+    });
+  }, [csvHeaders]);
 
   // Update URL when locale or theme changes
   const updateUrl = (newLocale: Locale, newTheme: boolean) => {
@@ -142,7 +516,16 @@ export default function Home() {
     router.replace(`?${params.toString()}`, { scroll: false });
   };
 
-  const handleConvert = async () => {
+  // Look up the typed "lat, lng" in the converted features
+  const handleLookup = () => {
+    if (!lookupIndex) return;
+    const [lat, lng] = lookupInput.split(/[\s,]+/).filter(part => part !== '');
+    const [result] = lookupPoints(lookupIndex, [{ lat, lng }], lookupDistance);
+    setLookupResult(result);
+  };
+
+  // Settings can be overridden for a conversion started together with a settings change
+  const handleConvert = async (overrides: { fixSwappedAxes?: boolean } = {}) => {
     if (!inputData.trim()) {
       setError(t.pleaseEnterJsonData);
       return;
@@ -150,14 +533,24 @@ export default function Home() {
 
     setLoading(true);
     setError('');
-    setOutputData('');
+    setConvertedData('');
     setValidationWarnings([]);
+    setFocusedWarning(null);
+    setFocusBBox(null);
 
     try {
+      // CSV text is sent as-is, together with the column mapping
+      if (inputFormat === 'csv' && (!csvMapping.group || !csvMapping.lat || !csvMapping.lng)) {
+        throw new Error(t.csvMappingIncomplete);
+      }
+      if (inputFormat === 'json' && schemaMappingEnabled && !activeSchemaMapping) {
+        throw new Error(t.schemaMappingIncomplete);
+      }
+
       // Validate JSON with enhanced error handling
       let parsedData;
       try {
-        parsedData = JSON.parse(inputData);
+        parsedData = inputFormat === 'csv' ? inputData : JSON.parse(inputData);
       } catch (jsonError) {
         // Enhanced JSON parsing error with line numbers
         if (jsonError instanceof SyntaxError) {
@@ -208,6 +601,14 @@ export default function Home() {
         },
         body: JSON.stringify({
           data: parsedData,
+          inputFormat: inputFormat,
+          csvMapping: inputFormat === 'csv' ? csvMapping : undefined,
+          schemaMapping: activeSchemaMapping || undefined,
+          rewind: rewindRings,
+          invalidData: invalidDataPolicy,
+          includeMetrics: includeMetrics,
+          fixSwappedAxes: overrides.fixSwappedAxes ?? fixSwappedAxes,
+          sourceCrs: sourceCrs,
           includeMarkers: includeMarkers,
           markers: includeMarkers ? markers.map(marker => ({
             lat: parseFloat(marker.lat),
@@ -219,11 +620,21 @@ export default function Home() {
 
       if (!response.ok) {
         const errorData = await response.json();
+        // The 'fail' policy lists every problem, shown in the warnings panel
+        if (errorData.warnings) {
+          setValidationWarnings(errorData.warnings);
+        }
         throw new Error(errorData.error || t.failedToConvertData);
       }
 
       const responseData = await response.json();
-      setOutputData(JSON.stringify(responseData.geojson, null, 2));
+      setConvertedData(JSON.stringify(responseData.geojson, null, 2));
+      setFitGeoJSON(responseData.geojson);
+      setFeatureIndexes(responseData.featureIndexes || []);
+      setEditHistory({ past: [], future: [] });
+      setSelectedFeature(null);
+      setDrawing(null);
+      setTableQuery(prev => ({ ...prev, search: '', filters: {} }));
       
       // Handle validation warnings
       if (responseData.warnings && responseData.warnings.length > 0) {
@@ -251,14 +662,234 @@ export default function Home() {
     }
   };
 
+  // Fly to a warning's vertex, overlap region or station, and outline its station
+  const handleLocateWarning = (index: number) => {
+    const warning = validationWarnings[index];
+    const vertex = getWarningVertex(warning);
+    const featureIndex = getWarningFeature(warning);
+    const geometry = warning.overlap ||
+      (convertedGeoJSON && featureIndex !== -1 ? convertedGeoJSON.features[featureIndex].geometry : null);
+    setFocusedWarning(index);
+    if (vertex) {
+      setFocusBBox([vertex[0], vertex[1], vertex[0], vertex[1]]);
+    } else if (geometry) {
+      setFocusBBox(positionsBBox(getPositions(geometry)));
+    }
+
+    const mapSection = document.querySelector('[data-map-section]');
+    if (mapSection) {
+      mapSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  };
+
+  // Clicking a flagged vertex on the map scrolls its warning into view
+  const handleFlaggedVertexClick = (index: number) => {
+    setFocusedWarning(index);
+    const warningItem = document.querySelector(`[data-warning-index="${index}"]`);
+    if (warningItem) {
+      warningItem.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  };
+
+  // Map edits are written back into JSON input. CSV and schema-mapped input only change the output.
+  const canWriteBack = inputFormat === 'json' && !activeSchemaMapping;
+
+  // The input with an edit written back, or null when it cannot be
+  const writeBack = (update: (data: unknown) => unknown): string | null => {
+    if (!canWriteBack) return null;
+    try {
+      return JSON.stringify(update(JSON.parse(inputData)), null, 2);
+    } catch (error) {
+      return null;
+    }
+  };
+
+  // Edited geometries are WGS84; the input keeps its own CRS
+  const toSourceCrs = (geometry: GeoJSONGeometry): GeoJSONGeometry =>
+    (sourceCrs === WGS84 ? geometry : mapPositions(geometry, createTransform(WGS84, sourceCrs)));
+
+  // Metrics are recomputed for an edited geometry when the output includes them
+  const withMetrics = (feature: GeoJSONFeature, include: boolean): GeoJSONFeature => {
+    const metrics = include ? computeMetrics(feature.geometry) : null;
+    return metrics ? { ...feature, properties: { ...feature.properties, ...metrics } } : feature;
+  };
+
+  const currentSnapshot = (): EditSnapshot => ({ inputData, convertedData, featureIndexes, validationWarnings });
+
+  // Apply a map edit to the output, the input (null when not written back) and the warnings,
+  // keeping the previous state for undo
+  const commitEdit = (features: GeoJSONFeature[], indexes: number[], input: string | null, warnings = validationWarnings) => {
+    const snapshot = currentSnapshot();
+    setEditHistory(history => ({ past: [...history.past, snapshot], future: [] }));
+    const bbox = featuresBBox(features);
+    setConvertedData(JSON.stringify({ type: 'FeatureCollection', ...(bbox ? { bbox } : {}), features }, null, 2));
+    setFeatureIndexes(indexes);
+    if (input !== null) setInputData(input);
+    setValidationWarnings(warnings);
+    setFocusedWarning(null);
+    setEditVersion(prev => prev + 1);
+  };
+
+  const handleGeometryEdit = (geometry: GeoJSONGeometry) => {
+    if (!convertedGeoJSON || selectedFeature === null) return;
+    const features = convertedGeoJSON.features.slice();
+    const feature = features[selectedFeature];
+    features[selectedFeature] = withMetrics({ ...feature, geometry }, feature.properties.area_m2 !== undefined);
+    const sourceIndex = featureIndexes[selectedFeature];
+    const warnings = revalidateFeatureWarnings(validationWarnings, sourceIndex, feature.properties.name, geometry);
+    commitEdit(features, featureIndexes, writeBack(data => updateInputGeometry(data, sourceIndex, toSourceCrs(geometry))), warnings);
+  };
+
+  const handleDeleteFeature = () => {
+    if (!convertedGeoJSON || selectedFeature === null) return;
+    const sourceIndex = featureIndexes[selectedFeature];
+    const features = convertedGeoJSON.features.filter((_, i) => i !== selectedFeature);
+    const input = writeBack(data => removeInputFeature(data, sourceIndex));
+    // Later stations move up one place in a rewritten input
+    const shifted = input !== null;
+    const indexes = featureIndexes
+      .filter((_, i) => i !== selectedFeature)
+      .map(index => (shifted && index > sourceIndex ? index - 1 : index));
+    commitEdit(features, indexes, input, removeFeatureWarnings(validationWarnings, sourceIndex, shifted));
+    setSelectedFeature(null);
+  };
+
+  // A drawn polygon becomes a new station, placed before any markers in the output
+  const handleFinishDrawing = () => {
+    if (!convertedGeoJSON || !drawing || drawing.length < 3) return;
+    const geometry: GeoJSONGeometry = { type: 'Polygon', coordinates: [[...drawing, drawing[0]]] };
+    const name = t.newStationName.replace('{number}', (convertedGeoJSON.features.length + 1).toString());
+    let sourceIndex = featureIndexes.reduce((max, index) => Math.max(max, index), -1) + 1;
+    const input = writeBack(data => {
+      const appended = appendInputFeature(data, name, toSourceCrs(geometry));
+      sourceIndex = appended.featureIndex;
+      return appended.data;
+    });
+
+    const position = featureIndexes.indexOf(-1) === -1 ? featureIndexes.length : featureIndexes.indexOf(-1);
+    const features = convertedGeoJSON.features.slice();
+    features.splice(position, 0, withMetrics({ type: 'Feature', properties: { name }, geometry }, includeMetrics));
+    const indexes = featureIndexes.slice();
+    indexes.splice(position, 0, sourceIndex);
+    commitEdit(features, indexes, input, revalidateFeatureWarnings(validationWarnings, sourceIndex, name, geometry));
+    setDrawing(null);
+    setSelectedFeature(position);
+  };
+
+  const restoreSnapshot = (snapshot: EditSnapshot) => {
+    setInputData(snapshot.inputData);
+    setConvertedData(snapshot.convertedData);
+    setFeatureIndexes(snapshot.featureIndexes);
+    setValidationWarnings(snapshot.validationWarnings);
+    setFocusedWarning(null);
+    setSelectedFeature(null);
+    setEditVersion(prev => prev + 1);
+  };
+
+  const handleUndo = () => {
+    const previous = editHistory.past[editHistory.past.length - 1];
+    if (!previous) return;
+    setEditHistory({
+      past: editHistory.past.slice(0, -1),
+      future: [currentSnapshot(), ...editHistory.future]
+    });
+    restoreSnapshot(previous);
+  };
+
+  const handleRedo = () => {
+    const next = editHistory.future[0];
+    if (!next) return;
+    setEditHistory({
+      past: [...editHistory.past, currentSnapshot()],
+      future: editHistory.future.slice(1)
+    });
+    restoreSnapshot(next);
+  };
+
+  // Ctrl+Z / Ctrl+Y (or Ctrl+Shift+Z) undo and redo map edits, except while typing in a field
+  useEffect(() => {
+    if (!editMode) return;
+    const handleKeyDown = (event: KeyboardEvent) => {
+      const target = event.target as HTMLElement;
+      if (!(event.ctrlKey || event.metaKey) || target.closest('input, textarea, select')) return;
+      const key = event.key.toLowerCase();
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        handleUndo();
+      } else if (key === 'y' || (key === 'z' && event.shiftKey)) {
+        event.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  // Zoom to a station picked in the table and select it (for editing too, in edit mode)
+  const handleSelectRow = (index: number) => {
+    if (!outputGeoJSON) return;
+    if (!editMode || featureIndexes[index] !== -1) {
+      setSelectedFeature(index);
+    }
+    setFocusBBox(positionsBBox(getPositions(outputGeoJSON.features[index].geometry)));
+
+    const mapSection = document.querySelector('[data-map-section]');
+    if (mapSection) {
+      mapSection.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }
+  };
+
+  const handleSortColumn = (column: string) => {
+    setTableQuery(prev => ({
+      ...prev,
+      sortColumn: column,
+      sortDirection: prev.sortColumn === column && prev.sortDirection === 'asc' ? 'desc' : 'asc'
+    }));
+  };
+
+  // The output to download: every feature, or only those the table shows (in output order), with
+  // the map colours as simplestyle properties when asked for
+  const getDownloadData = () => {
+    const filtered = downloadFilteredOnly && visibleRows.length !== tableRows.length;
+    if (!outputGeoJSON || (!filtered && !exportStyle)) {
+      return outputData;
+    }
+    let collection = outputGeoJSON;
+    if (filtered) {
+      const features = visibleRows
+        .map(row => row.index)
+        .sort((a, b) => a - b)
+        .map(index => outputGeoJSON.features[index]);
+      const bbox = featuresBBox(features);
+      collection = { type: 'FeatureCollection', ...(bbox ? { bbox } : {}), features };
+    }
+    if (exportStyle) {
+      collection = applySimplestyle(collection, featureStyler);
+    }
+    return JSON.stringify(collection, null, 2);
+  };
+
   const handleDownload = () => {
     if (!outputData) return;
+    const downloadData = getDownloadData();
+
+    let blob: Blob;
+    let fileName: string;
+    if (downloadFormat === 'kml') {
+      blob = new Blob([toKML(JSON.parse(downloadData), { groupByArea: kmlGroupByArea })], { type: KML_MIME_TYPE });
+      fileName = 'result.kml';
+    } else if (downloadFormat === 'shapefile') {
+      blob = new Blob([toShapefile(JSON.parse(downloadData), { name: 'result' })], { type: SHAPEFILE_MIME_TYPE });
+      fileName = 'result.zip';
+    } else {
+      blob = new Blob([downloadData], { type: 'application/json' });
+      fileName = 'result.geojson';
+    }
 
-    const blob = new Blob([outputData], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
     a.href = url;
-    a.download = 'result.geojson';
+    a.download = fileName;
     document.body.appendChild(a);
     a.click();
     document.body.removeChild(a);
@@ -300,6 +931,20 @@ export default function Home() {
   };
 
   const handleLoadExample = () => {
+    if (inputFormat === 'csv') {
+      // Vertex rows out of order on purpose, to show grouping and sequencing
+      setInputData(`name,seq,lat,long,area_name
+Stasiun LRT Ciliwung,1,-6.242799927901021,106.86279925611093,LRT Indonesia
+Stasiun LRT Ciliwung,2,-6.243423842559002,106.86278852727487,LRT Indonesia
+Stasiun LRT Ciliwung,3,-6.243439840360971,106.86401161458566,LRT Indonesia
+Sample Feature,1,-6.2428,106.8628,Samples
+Sample Feature,3,-6.2434,106.8640,Samples
+Sample Feature,2,-6.2434,106.8628,Samples
+Sample Feature,4,-6.2428,106.8640,Samples
+Stasiun LRT Ciliwung,4,-6.242959906089307,106.86468753125742,LRT Indonesia`);
+      return;
+    }
+
     // Randomly choose between simple array format and complex nested structure
     const useSimpleFormat = Math.random() < 0.5;
     
@@ -420,6 +1065,54 @@ export default function Home() {
     }
   };
 
+  const issueLabels: { [issue in ValidationIssue]: string } = {
+    both_invalid: t.warningBothInvalid,
+    invalid_latitude: t.warningInvalidLatitude,
+    invalid_longitude: t.warningInvalidLongitude,
+    invalid_json: t.warningInvalidJson,
+    invalid_wkt: t.warningInvalidWkt,
+    invalid_geometry: t.warningInvalidGeometry,
+    self_intersection: t.warningSelfIntersection,
+    too_few_points: t.warningTooFewPoints,
+    wrong_winding: t.warningWrongWinding,
+    duplicate_vertex: t.warningDuplicateVertex,
+    zero_area: t.warningZeroArea,
+    hole_outside_shell: t.warningHoleOutsideShell,
+    swapped_axes: t.warningSwappedAxes,
+    overlap: t.warningOverlap,
+    contained: t.warningContained,
+    duplicate_name: t.warningDuplicateName,
+    duplicate_id: t.warningDuplicateId,
+    duplicate_geometry: t.warningDuplicateGeometry,
+  };
+
+  const actionLabels: { [action in WarningAction]: string } = {
+    kept: t.actionKept,
+    vertex_dropped: t.actionVertexDropped,
+    feature_dropped: t.actionFeatureDropped,
+    failed: t.actionFailed,
+    fixed: t.actionFixed,
+  };
+
+  // Badge colour: red for both coordinates invalid, purple for unparseable polygons,
+  // blue for ring topology problems, orange for single coordinate problems and pink for
+  // problems between stations
+  const getIssueBadgeClass = (issue: ValidationIssue) => {
+    if (issue === 'both_invalid') {
+      return isDarkMode ? 'bg-red-700 text-red-200' : 'bg-red-100 text-red-800';
+    }
+    if (issue === 'invalid_json' || issue === 'invalid_wkt' || issue === 'invalid_geometry') {
+      return isDarkMode ? 'bg-purple-700 text-purple-200' : 'bg-purple-100 text-purple-800';
+    }
+    if (issue === 'invalid_latitude' || issue === 'invalid_longitude' || issue === 'swapped_axes') {
+      return isDarkMode ? 'bg-orange-700 text-orange-200' : 'bg-orange-100 text-orange-800';
+    }
+    if (DATASET_ISSUES.indexOf(issue) !== -1) {
+      return isDarkMode ? 'bg-pink-700 text-pink-200' : 'bg-pink-100 text-pink-800';
+    }
+    return isDarkMode ? 'bg-blue-700 text-blue-200' : 'bg-blue-100 text-blue-800';
+  };
+
   return (
     <div className={`min-h-screen py-8 relative transition-colors duration-200 ${
       isDarkMode ? 'bg-gray-900' : 'bg-gray-50'
@@ -570,6 +1263,9 @@ export default function Home() {
                       }`}>
                         <div>{t.polygonFormat1}</div>
                         <div>{t.polygonFormat2}</div>
+                        <div>{t.polygonFormat3}</div>
+                        <div>{t.polygonFormat4}</div>
+                        <div>{t.polygonFormat5}</div>
                       </div>
                     </div>
                     
@@ -617,6 +1313,24 @@ export default function Home() {
               }`}>
                 {t.inputData}
               </h2>
+              <div className="flex items-center gap-2">
+              <div className={`flex rounded-md border text-sm overflow-hidden transition-colors duration-200 ${
+                isDarkMode ? 'border-gray-600' : 'border-gray-300'
+              }`}>
+                {(['json', 'csv'] as InputFormat[]).map(format => (
+                  <button
+                    key={format}
+                    onClick={() => setInputFormat(format)}
+                    className={`px-3 py-2 transition-colors duration-200 ${
+                      inputFormat === format
+                        ? (isDarkMode ? 'bg-blue-600 text-white' : 'bg-blue-100 text-blue-700')
+                        : (isDarkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100')
+                    }`}
+                  >
+                    {format === 'json' ? t.inputFormatJson : t.inputFormatCsv}
+                  </button>
+                ))}
+              </div>
               <button
                 onClick={handleLoadExample}
                 className={`px-4 py-2 text-sm rounded-md transition-colors ${
@@ -627,12 +1341,13 @@ export default function Home() {
               >
                 {t.loadExample}
               </button>
+              </div>
             </div>
             
             <textarea
               value={inputData}
               onChange={(e) => setInputData(e.target.value)}
-              placeholder={t.placeholderInput}
+              placeholder={inputFormat === 'csv' ? t.placeholderCsvInput : t.placeholderInput}
               className={`w-full h-96 p-4 border rounded-md font-mono text-sm resize-none focus:ring-2 focus:ring-blue-500 focus:border-transparent transition-colors duration-200 ${
                 isDarkMode 
                   ? 'border-gray-600 bg-gray-700 text-white placeholder-gray-400' 
@@ -641,6 +1356,246 @@ export default function Home() {
             />
             
             <div className="mt-4 space-y-4">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <label
+                    htmlFor="sourceCrs"
+                    className={`text-sm transition-colors duration-200 ${
+                      isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}
+                  >
+                    {t.sourceCrs}
+                  </label>
+                  <select
+                    id="sourceCrs"
+                    value={sourceCrs}
+                    onChange={(e) => setSourceCrs(e.target.value)}
+                    className={`flex-1 px-2 py-2 text-sm border rounded-md transition-colors duration-200 ${
+                      isDarkMode 
+                        ? 'border-gray-600 bg-gray-700 text-white' 
+                        : 'border-gray-300 bg-white text-gray-900'
+                    }`}
+                  >
+                    {SUPPORTED_CRS.map(crs => (
+                      <option key={crs.code} value={crs.code}>{crs.code} ({crs.name})</option>
+                    ))}
+                  </select>
+                </div>
+                {sourceCrs !== WGS84 && sourceCrs !== 'EPSG:4755' && (
+                  <p className={`mt-1 text-xs transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                  }`}>
+                    {t.sourceCrsHint}
+                  </p>
+                )}
+              </div>
+
+              {inputFormat === 'csv' && (
+                <div className={`p-4 rounded-md transition-colors duration-200 ${
+                  isDarkMode ? 'bg-gray-700' : 'bg-gray-50'
+                }`}>
+                  <h3 className={`text-sm font-medium mb-3 transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                    {t.csvColumnMapping}
+                  </h3>
+                  {csvHeaders.length === 0 ? (
+                    <p className={`text-xs transition-colors duration-200 ${
+                      isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                    }`}>
+                      {t.csvNoHeader}
+                    </p>
+                  ) : (
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                      {([
+                        ['group', t.csvGroupColumn, true],
+                        ['name', t.csvNameColumn, false],
+                        ['sequence', t.csvSequenceColumn, false],
+                        ['lat', t.csvLatColumn, true],
+                        ['lng', t.csvLngColumn, true],
+                      ] as Array<[keyof CSVMapping, string, boolean]>).map(([field, label, required]) => (
+                        <div key={field}>
+                          <label className={`block text-xs font-medium mb-1 transition-colors duration-200 ${
+                            isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                          }`}>
+                            {label}
+                          </label>
+                          <select
+                            value={csvMapping[field] || ''}
+                            onChange={(e) => setCsvMapping({ ...csvMapping, [field]: e.target.value || undefined })}
+                            className={`w-full px-2 py-2 border rounded-md text-sm transition-colors duration-200 ${
+                              isDarkMode 
+                                ? 'border-gray-500 bg-gray-700 text-white' 
+                                : 'border-gray-300 bg-white text-gray-900'
+                            }`}
+                          >
+                            <option value="">{required ? t.csvSelectColumn : t.csvNone}</option>
+                            {csvHeaders.map(header => (
+                              <option key={header} value={header}>{header}</option>
+                            ))}
+                          </select>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {inputFormat === 'json' && (
+                <div className={`p-4 rounded-md transition-colors duration-200 ${
+                  isDarkMode ? 'bg-gray-700' : 'bg-gray-50'
+                }`}>
+                  <div className="flex items-center space-x-3">
+                    <input
+                      type="checkbox"
+                      id="schemaMapping"
+                      checked={schemaMappingEnabled}
+                      onChange={(e) => setSchemaMappingEnabled(e.target.checked)}
+                      className={`w-5 h-5 rounded text-blue-600 focus:ring-blue-500 focus:ring-2 transition-colors duration-200 ${
+                        isDarkMode ? 'border-gray-600 bg-gray-700' : 'border-gray-300'
+                      }`}
+                    />
+                    <label
+                      htmlFor="schemaMapping"
+                      className={`text-sm font-medium cursor-pointer transition-colors duration-200 ${
+                        isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-700 hover:text-gray-900'
+                      }`}
+                    >
+                      {t.schemaMapping}
+                    </label>
+                  </div>
+                  {schemaMappingEnabled && (
+                    <div className="mt-3 space-y-3">
+                      <p className={`text-xs transition-colors duration-200 ${
+                        isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                      }`}>
+                        {t.schemaMappingHint}
+                      </p>
+                      <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+                        {([
+                          ['features', t.schemaFeaturesPath, '$.data.stations[*]'],
+                          ['name', t.schemaNamePath, 'title'],
+                          ['polygon', t.schemaPolygonPath, 'geofence.points'],
+                          ['lat', t.schemaLatPath, 'lat'],
+                          ['lng', t.schemaLngPath, 'lng'],
+                          ['group', t.schemaGroupPath, t.csvNone],
+                        ] as Array<[keyof SchemaMapping, string, string]>).map(([field, label, placeholder]) => (
+                          <div key={field}>
+                            <label className={`block text-xs font-medium mb-1 transition-colors duration-200 ${
+                              isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                            }`}>
+                              {label}
+                            </label>
+                            <input
+                              type="text"
+                              value={schemaMapping[field] || ''}
+                              placeholder={placeholder}
+                              onChange={(e) => setSchemaMapping({ ...schemaMapping, [field]: e.target.value.trim() || undefined })}
+                              className={`w-full px-2 py-2 border rounded-md font-mono text-sm transition-colors duration-200 ${
+                                isDarkMode 
+                                  ? 'border-gray-500 bg-gray-700 text-white placeholder-gray-400' 
+                                  : 'border-gray-300 bg-white text-gray-900 placeholder-gray-400'
+                              }`}
+                            />
+                          </div>
+                        ))}
+                      </div>
+                      {schemaPreview && (
+                        <div>
+                          <h4 className={`text-xs font-medium mb-1 transition-colors duration-200 ${
+                            isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                          }`}>
+                            {t.schemaPreview}
+                          </h4>
+                          {schemaPreview.error ? (
+                            <p className={`text-xs transition-colors duration-200 ${
+                              isDarkMode ? 'text-red-300' : 'text-red-700'
+                            }`}>
+                              {schemaPreview.error}
+                            </p>
+                          ) : (
+                            <>
+                              <p className={`text-xs mb-1 transition-colors duration-200 ${
+                                isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                              }`}>
+                                {(schemaPreview.groupCount !== undefined ? t.schemaPreviewGroups : t.schemaPreviewFound)
+                                  .replace('{count}', schemaPreview.featureCount.toString())
+                                  .replace('{groups}', String(schemaPreview.groupCount))}
+                              </p>
+                              <pre className={`max-h-48 overflow-auto p-2 rounded text-xs font-mono transition-colors duration-200 ${
+                                isDarkMode ? 'bg-gray-800 text-gray-200' : 'bg-white text-gray-800'
+                              }`}>
+                                {JSON.stringify(schemaPreview.samples, null, 2)}
+                              </pre>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="rewindRings"
+                  checked={rewindRings}
+                  onChange={(e) => setRewindRings(e.target.checked)}
+                  className={`w-5 h-5 rounded text-blue-600 focus:ring-blue-500 focus:ring-2 transition-colors duration-200 ${
+                    isDarkMode ? 'border-gray-600 bg-gray-700' : 'border-gray-300'
+                  }`}
+                />
+                <label 
+                  htmlFor="rewindRings"
+                  className={`text-base font-medium cursor-pointer transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-700 hover:text-gray-900'
+                  }`}
+                >
+                  {t.rewindRings}
+                </label>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="includeMetrics"
+                  checked={includeMetrics}
+                  onChange={(e) => setIncludeMetrics(e.target.checked)}
+                  className={`w-5 h-5 rounded text-blue-600 focus:ring-blue-500 focus:ring-2 transition-colors duration-200 ${
+                    isDarkMode ? 'border-gray-600 bg-gray-700' : 'border-gray-300'
+                  }`}
+                />
+                <label 
+                  htmlFor="includeMetrics"
+                  className={`text-base font-medium cursor-pointer transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-700 hover:text-gray-900'
+                  }`}
+                >
+                  {t.includeMetrics}
+                </label>
+              </div>
+
+              <div className="flex items-center space-x-3">
+                <input
+                  type="checkbox"
+                  id="fixSwappedAxes"
+                  checked={fixSwappedAxes}
+                  onChange={(e) => setFixSwappedAxes(e.target.checked)}
+                  className={`w-5 h-5 rounded text-blue-600 focus:ring-blue-500 focus:ring-2 transition-colors duration-200 ${
+                    isDarkMode ? 'border-gray-600 bg-gray-700' : 'border-gray-300'
+                  }`}
+                />
+                <label 
+                  htmlFor="fixSwappedAxes"
+                  className={`text-base font-medium cursor-pointer transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-700 hover:text-gray-900'
+                  }`}
+                >
+                  {t.fixSwappedAxes}
+                </label>
+              </div>
+
               <div className="flex items-center space-x-3">
                 <input
                   type="checkbox"
@@ -777,9 +1732,32 @@ export default function Home() {
                 </div>
               )}
               
-              <div className="flex justify-end">
+              <div className="flex justify-end items-center space-x-2">
+                <label
+                  htmlFor="invalidDataPolicy"
+                  className={`text-sm transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}
+                >
+                  {t.invalidDataPolicy}
+                </label>
+                <select
+                  id="invalidDataPolicy"
+                  value={invalidDataPolicy}
+                  onChange={(e) => setInvalidDataPolicy(e.target.value as InvalidDataPolicy)}
+                  className={`px-2 py-2 text-sm border rounded-md transition-colors duration-200 ${
+                    isDarkMode 
+                      ? 'border-gray-600 bg-gray-700 text-white' 
+                      : 'border-gray-300 bg-white text-gray-900'
+                  }`}
+                >
+                  <option value="keep">{t.policyKeep}</option>
+                  <option value="drop_vertex">{t.policyDropVertex}</option>
+                  <option value="drop_feature">{t.policyDropFeature}</option>
+                  <option value="fail">{t.policyFail}</option>
+                </select>
                 <button
-                  onClick={handleConvert}
+                  onClick={() => handleConvert()}
                   disabled={loading}
                   className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
                 >
@@ -855,6 +1833,21 @@ export default function Home() {
                   {validationWarnings.length > 0 && <span>⚠️</span>}
                   {t.copy}
                 </button>
+                <select
+                  value={downloadFormat}
+                  onChange={(e) => setDownloadFormat(e.target.value as OutputFormat)}
+                  disabled={!outputData}
+                  title={t.downloadFormat}
+                  className={`px-2 py-2 text-sm border rounded-md transition-colors duration-200 disabled:opacity-50 ${
+                    isDarkMode 
+                      ? 'border-gray-600 bg-gray-700 text-white' 
+                      : 'border-gray-300 bg-white text-gray-900'
+                  }`}
+                >
+                  <option value="geojson">{t.formatGeoJSON}</option>
+                  <option value="kml">{t.formatKML}</option>
+                  <option value="shapefile">{t.formatShapefile}</option>
+                </select>
                 <button
                   onClick={handleDownload}
                   disabled={!outputData}
@@ -878,6 +1871,78 @@ export default function Home() {
               </div>
             </div>
             
+            {downloadFormat === 'kml' && (
+              <div className="flex items-center justify-end space-x-2 mb-3">
+                <input
+                  type="checkbox"
+                  id="kmlGroupByArea"
+                  checked={kmlGroupByArea}
+                  onChange={(e) => setKmlGroupByArea(e.target.checked)}
+                  className={`w-4 h-4 rounded text-blue-600 focus:ring-blue-500 focus:ring-2 transition-colors duration-200 ${
+                    isDarkMode ? 'border-gray-600 bg-gray-700' : 'border-gray-300'
+                  }`}
+                />
+                <label
+                  htmlFor="kmlGroupByArea"
+                  className={`text-sm cursor-pointer transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300 hover:text-white' : 'text-gray-700 hover:text-gray-900'
+                  }`}
+                >
+                  {t.kmlFolderPerArea}
+                </label>
+              </div>
+            )}
+            
+            <div className={`flex flex-wrap items-center gap-3 mb-3 text-sm transition-colors duration-200 ${
+              isDarkMode ? 'text-gray-300' : 'text-gray-700'
+            }`}>
+              <label htmlFor="simplifyTolerance" className="whitespace-nowrap">
+                {simplifyTolerance > 0
+                  ? t.simplifyTolerance.replace('{tolerance}', simplifyTolerance.toString())
+                  : t.simplifyOff}
+              </label>
+              <input
+                type="range"
+                id="simplifyTolerance"
+                min={0}
+                max={50}
+                step={0.5}
+                value={simplifyTolerance}
+                onChange={(e) => setSimplifyTolerance(parseFloat(e.target.value))}
+                disabled={!convertedData}
+                className="flex-1 min-w-[8rem] disabled:opacity-50"
+              />
+              <select
+                value={simplifyAlgorithm}
+                onChange={(e) => setSimplifyAlgorithm(e.target.value as SimplifyAlgorithm)}
+                disabled={!convertedData}
+                title={t.simplifyAlgorithm}
+                className={`px-2 py-1 text-sm border rounded-md transition-colors duration-200 disabled:opacity-50 ${
+                  isDarkMode 
+                    ? 'border-gray-600 bg-gray-700 text-white' 
+                    : 'border-gray-300 bg-white text-gray-900'
+                }`}
+              >
+                <option value="douglas-peucker">{t.algorithmDouglasPeucker}</option>
+                <option value="visvalingam">{t.algorithmVisvalingam}</option>
+              </select>
+              <div className="flex items-center space-x-2">
+                <input
+                  type="checkbox"
+                  id="preserveTopology"
+                  checked={preserveTopology}
+                  onChange={(e) => setPreserveTopology(e.target.checked)}
+                  disabled={!convertedData}
+                  className={`w-4 h-4 rounded text-blue-600 focus:ring-blue-500 focus:ring-2 transition-colors duration-200 ${
+                    isDarkMode ? 'border-gray-600 bg-gray-700' : 'border-gray-300'
+                  }`}
+                />
+                <label htmlFor="preserveTopology" className="cursor-pointer">
+                  {t.preserveTopology}
+                </label>
+              </div>
+            </div>
+
             <textarea
               value={outputData}
               readOnly
@@ -888,6 +1953,40 @@ export default function Home() {
                   : 'border-gray-300 bg-white text-gray-900 placeholder-gray-500'
               }`}
             />
+
+            {outputSummary && (
+              <div className={`mt-4 p-3 rounded-md text-sm transition-colors duration-200 ${
+                isDarkMode ? 'bg-gray-700 text-gray-300' : 'bg-gray-50 text-gray-700'
+              }`}>
+                <p>
+                  {t.summaryFeatures
+                    .replace('{count}', outputSummary.featureCount.toString())
+                    .replace('{polygons}', outputSummary.polygonCount.toString())
+                  }
+                </p>
+                {outputSummary.polygonCount > 0 && (
+                  <p>
+                    {t.summaryTotals
+                      .replace('{area}', formatArea(outputSummary.totalArea))
+                      .replace('{perimeter}', formatLength(outputSummary.totalPerimeter))
+                    }
+                  </p>
+                )}
+                {vertexCounts && (
+                  <p>
+                    {t.summaryVertices
+                      .replace('{before}', vertexCounts.before.toString())
+                      .replace('{after}', vertexCounts.after.toString())
+                    }
+                  </p>
+                )}
+                {outputSummary.bbox && (
+                  <p className="font-mono text-xs mt-1">
+                    {t.summaryBBox.replace('{bbox}', outputSummary.bbox.join(', '))}
+                  </p>
+                )}
+              </div>
+            )}
             
             {/* Simple Warning Indicator */}
             {validationWarnings.length > 0 && (
@@ -922,7 +2021,7 @@ export default function Home() {
 
         {/* Map Section - Shows when there's output data */}
         {outputData && (
-          <div className="lg:col-span-2 mt-8">
+          <div data-map-section className="lg:col-span-2 mt-8">
             <div className={`rounded-lg shadow-md p-6 transition-colors duration-200 ${
               isDarkMode ? 'bg-gray-800' : 'bg-white'
             }`}>
@@ -932,69 +2031,594 @@ export default function Home() {
                 }`}>
                   {t.mapPreview}
                 </h2>
-                {validationWarnings.length > 0 && !isMapVisible && (
+              </div>
+
+              <div className="mb-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <label
+                    htmlFor="lookupInput"
+                    className={`text-sm transition-colors duration-200 ${
+                      isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}
+                  >
+                    {t.testCoordinate}
+                  </label>
+                  <input
+                    type="text"
+                    id="lookupInput"
+                    value={lookupInput}
+                    onChange={(e) => setLookupInput(e.target.value)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') handleLookup();
+                    }}
+                    placeholder={t.testCoordinatePlaceholder}
+                    className={`flex-1 min-w-[12rem] px-3 py-2 text-sm border rounded-md transition-colors duration-200 ${
+                      isDarkMode 
+                        ? 'border-gray-600 bg-gray-700 text-white placeholder-gray-400' 
+                        : 'border-gray-300 bg-white text-gray-900 placeholder-gray-500'
+                    }`}
+                  />
+                  <label
+                    htmlFor="lookupDistance"
+                    className={`text-sm transition-colors duration-200 ${
+                      isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}
+                  >
+                    {t.testCoordinateDistance}
+                  </label>
+                  <input
+                    type="number"
+                    id="lookupDistance"
+                    min={0}
+                    value={lookupDistance}
+                    onChange={(e) => setLookupDistance(Math.max(0, parseFloat(e.target.value) || 0))}
+                    className={`w-24 px-3 py-2 text-sm border rounded-md transition-colors duration-200 ${
+                      isDarkMode 
+                        ? 'border-gray-600 bg-gray-700 text-white' 
+                        : 'border-gray-300 bg-white text-gray-900'
+                    }`}
+                  />
                   <button
-                    onClick={() => setIsMapVisible(true)}
-                    className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-md transition-colors"
+                    onClick={handleLookup}
+                    disabled={!lookupInput.trim()}
+                    className="px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors duration-200"
                   >
-                    {t.showMap}
+                    {t.testCoordinateButton}
                   </button>
+                </div>
+                {lookupResult && (
+                  <p className={`mt-2 text-sm transition-colors duration-200 ${
+                    lookupResult.error
+                      ? (isDarkMode ? 'text-red-300' : 'text-red-600')
+                      : (isDarkMode ? 'text-gray-300' : 'text-gray-700')
+                  }`}>
+                    {lookupResult.error
+                      ? t.lookupInvalid.replace('{message}', lookupResult.error)
+                      : lookupResult.matches.length === 0
+                        ? t.lookupNone.replace('{distance}', lookupDistance.toString())
+                        : lookupResult.matches[0].distance_m === 0
+                          ? t.lookupInside.replace('{names}', lookupResult.matches.map(match => match.properties.name).join(', '))
+                          : t.lookupNearest
+                              .replace('{name}', lookupResult.matches[0].properties.name)
+                              .replace('{distance}', lookupResult.matches[0].distance_m.toString())
+                    }
+                  </p>
                 )}
               </div>
               
-              {outputData && isMapVisible && (
-                <div className="h-96 md:h-[600px] w-full rounded-md overflow-hidden">
-                  <MapContainer
-                    key={mapKey}
-                    center={[0, 0] as [number, number]}
-                    zoom={2}
-                    style={{ height: '100%', width: '100%' }}
-                    className="z-0"
-                    ref={(map) => {
-                      if (map) {
-                        // Force a resize after the map is created
-                        setTimeout(() => {
-                          map.invalidateSize();
-                        }, 100);
-                      }
+              <div className="mb-4">
+                <div className="flex flex-wrap items-center gap-2">
+                  <button
+                    onClick={() => {
+                      setEditMode(!editMode);
+                      setSelectedFeature(null);
+                      setDrawing(null);
                     }}
+                    className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                      editMode
+                        ? 'bg-green-600 hover:bg-green-700 text-white'
+                        : 'bg-blue-500 hover:bg-blue-600 text-white'
+                    }`}
                   >
+                    {editMode ? t.doneEditing : t.editMap}
+                  </button>
+                  {editMode && (drawing ? (
+                    <>
+                      <button
+                        onClick={handleFinishDrawing}
+                        disabled={drawing.length < 3}
+                        className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {t.finishPolygon}
+                      </button>
+                      <button
+                        onClick={() => setDrawing(null)}
+                        className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                          isDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+                        }`}
+                      >
+                        {t.cancelDrawing}
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        onClick={() => {
+                          setSelectedFeature(null);
+                          setDrawing([]);
+                        }}
+                        className="px-3 py-1 text-sm bg-blue-500 hover:bg-blue-600 text-white rounded-md transition-colors"
+                      >
+                        {t.drawPolygon}
+                      </button>
+                      <button
+                        onClick={handleDeleteFeature}
+                        disabled={selectedFeature === null}
+                        className="px-3 py-1 text-sm bg-red-600 hover:bg-red-700 text-white rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                      >
+                        {t.deleteFeature}
+                      </button>
+                      {[
+                        { label: t.undo, onClick: handleUndo, disabled: editHistory.past.length === 0 },
+                        { label: t.redo, onClick: handleRedo, disabled: editHistory.future.length === 0 },
+                      ].map(button => (
+                        <button
+                          key={button.label}
+                          onClick={button.onClick}
+                          disabled={button.disabled}
+                          className={`px-3 py-1 text-sm rounded-md disabled:opacity-50 disabled:cursor-not-allowed transition-colors ${
+                            isDarkMode ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-gray-200 hover:bg-gray-300 text-gray-800'
+                          }`}
+                        >
+                          {button.label}
+                        </button>
+                      ))}
+                    </>
+                  ))}
+                </div>
+                {editMode && (
+                  <p className={`mt-2 text-xs transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                  }`}>
+                    {drawing ? t.drawHint : t.editHint}
+                    {!canWriteBack && ` ${t.editNoWriteBack}`}
+                  </p>
+                )}
+              </div>
+
+              <div className="mb-2 flex flex-wrap items-center gap-2">
+                <label
+                  htmlFor="basemap"
+                  className={`text-sm transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}
+                >
+                  {t.basemap}
+                </label>
+                <select
+                  id="basemap"
+                  value={basemapChoice}
+                  onChange={(e) => setBasemapChoice(e.target.value as 'default' | BasemapType)}
+                  className={`px-2 py-1 text-sm border rounded-md transition-colors duration-200 ${
+                    isDarkMode 
+                      ? 'border-gray-600 bg-gray-700 text-white' 
+                      : 'border-gray-300 bg-white text-gray-900'
+                  }`}
+                >
+                  <option value="default">{t.basemapDefault}</option>
+                  <option value="xyz">{t.basemapXYZ}</option>
+                  <option value="wms">{t.basemapWMS}</option>
+                  <option value="none">{t.basemapNone}</option>
+                </select>
+                {(basemapChoice === 'xyz' || basemapChoice === 'wms') && (
+                  <input
+                    type="text"
+                    value={customBasemapUrl}
+                    onChange={(e) => setCustomBasemapUrl(e.target.value)}
+                    placeholder={basemapChoice === 'xyz' ? t.basemapXYZPlaceholder : t.basemapWMSPlaceholder}
+                    aria-label={t.basemap}
+                    className={`flex-1 min-w-[12rem] px-3 py-1 text-sm border rounded-md transition-colors duration-200 ${
+                      isDarkMode 
+                        ? 'border-gray-600 bg-gray-700 text-white placeholder-gray-400' 
+                        : 'border-gray-300 bg-white text-gray-900 placeholder-gray-500'
+                    }`}
+                  />
+                )}
+                {basemapChoice === 'wms' && (
+                  <input
+                    type="text"
+                    value={customWmsLayers}
+                    onChange={(e) => setCustomWmsLayers(e.target.value)}
+                    placeholder={t.basemapLayersPlaceholder}
+                    aria-label={t.basemapLayersPlaceholder}
+                    className={`w-48 px-3 py-1 text-sm border rounded-md transition-colors duration-200 ${
+                      isDarkMode 
+                        ? 'border-gray-600 bg-gray-700 text-white placeholder-gray-400' 
+                        : 'border-gray-300 bg-white text-gray-900 placeholder-gray-500'
+                    }`}
+                  />
+                )}
+              </div>
+              {basemapChoice !== 'none' && !isBasemapValid && (
+                <p className={`mb-2 text-xs transition-colors duration-200 ${
+                  isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                }`}>
+                  {t.basemapIncomplete}
+                </p>
+              )}
+
+              <div className="mb-4 flex flex-wrap items-center gap-2">
+                <label
+                  htmlFor="styleProperty"
+                  className={`text-sm transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}
+                >
+                  {t.colorBy}
+                </label>
+                <select
+                  id="styleProperty"
+                  value={styleOptions.property || ''}
+                  onChange={(e) => {
+                    const property = e.target.value || null;
+                    setStyleOptions({
+                      property,
+                      mode: property && outputGeoJSON && isNumericProperty(outputGeoJSON.features, property) ? styleOptions.mode : 'categorical'
+                    });
+                  }}
+                  className={`px-2 py-1 text-sm border rounded-md transition-colors duration-200 ${
+                    isDarkMode 
+                      ? 'border-gray-600 bg-gray-700 text-white' 
+                      : 'border-gray-300 bg-white text-gray-900'
+                  }`}
+                >
+                  <option value="">{t.colorByNone}</option>
+                  {tableColumns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+                {styleOptions.property && (
+                  <select
+                    aria-label={t.colorBy}
+                    value={styleOptions.mode}
+                    onChange={(e) => setStyleOptions({ ...styleOptions, mode: e.target.value as StyleOptions['mode'] })}
+                    className={`px-2 py-1 text-sm border rounded-md transition-colors duration-200 ${
+                      isDarkMode 
+                        ? 'border-gray-600 bg-gray-700 text-white' 
+                        : 'border-gray-300 bg-white text-gray-900'
+                    }`}
+                  >
+                    <option value="categorical">{t.styleModeCategories}</option>
+                    <option
+                      value="numeric"
+                      disabled={!outputGeoJSON || !isNumericProperty(outputGeoJSON.features, styleOptions.property)}
+                    >
+                      {t.styleModeRange}
+                    </option>
+                  </select>
+                )}
+                <label
+                  htmlFor="labelProperty"
+                  className={`text-sm transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}
+                >
+                  {t.labelBy}
+                </label>
+                <select
+                  id="labelProperty"
+                  value={labelProperty}
+                  onChange={(e) => setLabelProperty(e.target.value)}
+                  className={`px-2 py-1 text-sm border rounded-md transition-colors duration-200 ${
+                    isDarkMode 
+                      ? 'border-gray-600 bg-gray-700 text-white' 
+                      : 'border-gray-300 bg-white text-gray-900'
+                  }`}
+                >
+                  <option value="">{t.labelByNone}</option>
+                  {tableColumns.map(column => (
+                    <option key={column} value={column}>{column}</option>
+                  ))}
+                </select>
+                <label className="flex items-center cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={exportStyle}
+                    onChange={(e) => setExportStyle(e.target.checked)}
+                    className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                  />
+                  <span className={`text-sm transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                  }`}>
+                    {t.exportStyle}
+                  </span>
+                </label>
+              </div>
+
+              <div className="h-96 md:h-[600px] w-full rounded-md overflow-hidden">
+                <MapContainer
+                  key={mapKey}
+                  center={[0, 0] as [number, number]}
+                  zoom={2}
+                  style={{
+                    height: '100%',
+                    width: '100%',
+                    // A plain background for the coordinate grid
+                    ...(showGrid ? { background: isDarkMode ? '#111827' : '#f9fafb' } : {})
+                  }}
+                  className="z-0"
+                  ref={(map) => {
+                    if (map) {
+                      // Force a resize after the map is created
+                      setTimeout(() => {
+                        map.invalidateSize();
+                      }, 100);
+                    }
+                  }}
+                >
+                  {activeBasemap.type === 'xyz' && isBasemapValid && (
                     <TileLayer
-                      url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-                      attribution="&copy; <a href='https://www.openstreetmap.org/copyright'>OpenStreetMap</a> contributors"
+                      key={activeBasemap.url}
+                      url={activeBasemap.url}
+                      attribution={activeBasemap.attribution}
+                    />
+                  )}
+                  {activeBasemap.type === 'wms' && isBasemapValid && (
+                    <WMSTileLayer
+                      key={`${activeBasemap.url}-${activeBasemap.layers}`}
+                      url={activeBasemap.url}
+                      params={{ layers: activeBasemap.layers!, format: 'image/png', transparent: false }}
+                      attribution={activeBasemap.attribution}
                     />
+                  )}
+                  {showGrid && <CoordinateGrid color={isDarkMode ? '#9ca3af' : '#6b7280'} />}
+                  {mapGeoJSON && (
                     <GeoJSON
-                      data={JSON.parse(outputData)}
-                      style={(feature: any) => ({
-                        fillColor: '#3b82f6',
-                        weight: 2,
-                        opacity: 1,
-                        color: '#1e40af',
-                        fillOpacity: 0.6,
-                      })}
+                      key={`${simplifyTolerance}-${simplifyAlgorithm}-${preserveTopology}-${lookupResult ? lookupResult.coordinate.join(',') : ''}-${editMode}-${editVersion}-${!!drawing}-${labelProperty}`}
+                      data={mapGeoJSON}
+                      style={(feature: any) => (selectedFeature !== null && mapGeoJSON.features[selectedFeature] === feature
+                        ? {
+                            fillColor: '#22c55e',
+                            weight: 3,
+                            opacity: 1,
+                            color: '#15803d',
+                            fillOpacity: 0.4,
+                          }
+                        : focusedFeatures.indexOf(feature) !== -1
+                        ? {
+                            fillColor: getIssueColor(validationWarnings[focusedWarning!].issue),
+                            weight: 4,
+                            opacity: 1,
+                            color: getIssueColor(validationWarnings[focusedWarning!].issue),
+                            fillOpacity: 0.4,
+                          }
+                        : highlightedFeatures.indexOf(feature) !== -1
+                        ? {
+                            fillColor: '#f59e0b',
+                            weight: 3,
+                            opacity: 1,
+                            color: '#b45309',
+                            fillOpacity: 0.7,
+                          }
+                        : getBaseStyle(feature))}
                       onEachFeature={(feature: any, layer: any) => {
-                        if (feature.properties && feature.properties.name) {
+                        if (editMode) {
+                          // Markers are not stations and cannot be edited
+                          const index = mapGeoJSON.features.indexOf(feature);
+                          if (!drawing && featureIndexes[index] !== -1) {
+                            layer.on('click', () => setSelectedFeature(index));
+                          }
+                        } else if (feature.properties && feature.properties.name) {
                           layer.bindPopup(`<b>${feature.properties.name}</b>`);
                         }
+                        const label = labelProperty && feature.properties ? feature.properties[labelProperty] : undefined;
+                        if (label !== undefined && label !== null && label !== '') {
+                          // As text, since property values may contain markup
+                          const text = document.createElement('span');
+                          text.textContent = String(label);
+                          layer.bindTooltip(text, { permanent: true, direction: 'center' });
+                        }
                       }}
                     />
-                    <FitBounds geojsonData={JSON.parse(outputData)} />
-                  </MapContainer>
+                  )}
+                  {overlapRegions.length > 0 && (
+                    <GeoJSON
+                      key={`overlaps-${overlapRegions.length}`}
+                      data={overlapCollection}
+                      style={{ fillColor: '#dc2626', weight: 1, opacity: 1, color: '#991b1b', fillOpacity: 0.5 }}
+                      onEachFeature={(feature, layer) => {
+                        layer.bindPopup(feature.properties.message);
+                      }}
+                    />
+                  )}
+                  {lookupResult && !lookupResult.error && (
+                    <CircleMarker
+                      center={[lookupResult.coordinate[1], lookupResult.coordinate[0]] as [number, number]}
+                      radius={6}
+                      pathOptions={{ color: '#dc2626', fillColor: '#dc2626', fillOpacity: 1 }}
+                    />
+                  )}
+                  {editMode && (
+                    <MapEditor
+                      geometry={convertedGeoJSON && selectedFeature !== null ? convertedGeoJSON.features[selectedFeature].geometry : null}
+                      drawing={drawing}
+                      onChange={handleGeometryEdit}
+                      onDrawPoint={position => setDrawing(drawing ? [...drawing, position] : [position])}
+                    />
+                  )}
+                  {flaggedVertices.map(({ warning, index, position }) => (
+                    <CircleMarker
+                      key={`warning-${index}`}
+                      center={[position![1], position![0]] as [number, number]}
+                      radius={focusedWarning === index ? 9 : 6}
+                      pathOptions={{ color: '#ffffff', weight: 2, fillColor: getIssueColor(warning.issue), fillOpacity: 1 }}
+                      eventHandlers={{ click: () => handleFlaggedVertexClick(index) }}
+                    />
+                  ))}
+                  <FitBounds geojsonData={fitGeoJSON} />
+                  <FocusBounds bbox={focusBBox} />
+                </MapContainer>
+              </div>
+
+              {featureStyler.legend.length > 0 && (
+                <div className={`mt-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs transition-colors duration-200 ${
+                  isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                }`}>
+                  {featureStyler.legend.slice(0, MAX_LEGEND_ENTRIES).map(entry => (
+                    <span key={`${entry.color}-${entry.label}`} className="flex items-center gap-1">
+                      <span
+                        className="inline-block w-3 h-3 rounded-sm border border-gray-400"
+                        style={{ backgroundColor: entry.color }}
+                      />
+                      {entry.missing ? t.legendNoValue : entry.label}
+                    </span>
+                  ))}
+                  {featureStyler.legend.length > MAX_LEGEND_ENTRIES && (
+                    <span>{t.legendMore.replace('{count}', (featureStyler.legend.length - MAX_LEGEND_ENTRIES).toString())}</span>
+                  )}
                 </div>
               )}
-              
-              {validationWarnings.length > 0 && !isMapVisible && (
-                <div className={`text-center py-8 ${
+            </div>
+          </div>
+        )}
+
+        {/* Feature Table - Shows when there's output data */}
+        {outputData && (
+          <div className="lg:col-span-2 mt-8">
+            <div className={`rounded-lg shadow-md p-6 transition-colors duration-200 ${
+              isDarkMode ? 'bg-gray-800' : 'bg-white'
+            }`}>
+              <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h2 className={`text-xl font-semibold transition-colors duration-200 ${
+                  isDarkMode ? 'text-white' : 'text-gray-900'
+                }`}>
+                  {t.featureTable}
+                </h2>
+                <span className={`text-sm transition-colors duration-200 ${
                   isDarkMode ? 'text-gray-400' : 'text-gray-500'
                 }`}>
-                  <p className="text-sm">
-                    {locale === 'en' 
-                      ? 'Map hidden due to warnings. Click "Show Map" to view anyway.'
-                      : 'Peta disembunyikan karena peringatan. Klik "Tampilkan Peta" untuk melihat.'
-                    }
+                  {t.featureTableCount
+                    .replace('{shown}', visibleRows.length.toString())
+                    .replace('{total}', tableRows.length.toString())
+                  }
+                </span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-2 mb-3">
+                <input
+                  type="text"
+                  value={tableQuery.search}
+                  onChange={(e) => setTableQuery({ ...tableQuery, search: e.target.value })}
+                  placeholder={t.featureTableSearch}
+                  aria-label={t.featureTableSearch}
+                  className={`flex-1 min-w-[12rem] px-3 py-2 text-sm border rounded-md transition-colors duration-200 ${
+                    isDarkMode 
+                      ? 'border-gray-600 bg-gray-700 text-white placeholder-gray-400' 
+                      : 'border-gray-300 bg-white text-gray-900 placeholder-gray-500'
+                  }`}
+                />
+                {Object.keys(tableFilterOptions).map(column => (
+                  <label
+                    key={column}
+                    className={`flex items-center gap-1 text-sm transition-colors duration-200 ${
+                      isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                    }`}
+                  >
+                    {column}
+                    <select
+                      value={tableQuery.filters[column] || ''}
+                      onChange={(e) => setTableQuery({ ...tableQuery, filters: { ...tableQuery.filters, [column]: e.target.value } })}
+                      className={`px-2 py-2 text-sm border rounded-md transition-colors duration-200 ${
+                        isDarkMode 
+                          ? 'border-gray-600 bg-gray-700 text-white' 
+                          : 'border-gray-300 bg-white text-gray-900'
+                      }`}
+                    >
+                      <option value="">{t.featureTableFilterAll}</option>
+                      {tableFilterOptions[column].map(value => (
+                        <option key={value} value={value}>{value}</option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+
+              <label className="flex items-center mb-3 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={downloadFilteredOnly}
+                  onChange={(e) => setDownloadFilteredOnly(e.target.checked)}
+                  className="mr-2 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                <span className={`text-sm transition-colors duration-200 ${
+                  isDarkMode ? 'text-gray-300' : 'text-gray-700'
+                }`}>
+                  {t.downloadFilteredOnly}
+                </span>
+              </label>
+
+              <div className={`max-h-96 overflow-auto border rounded-md transition-colors duration-200 ${
+                isDarkMode ? 'border-gray-600' : 'border-gray-200'
+              }`}>
+                <table className={`min-w-full text-sm transition-colors duration-200 ${
+                  isDarkMode ? 'text-gray-200' : 'text-gray-800'
+                }`}>
+                  <thead className={`sticky top-0 transition-colors duration-200 ${
+                    isDarkMode ? 'bg-gray-700' : 'bg-gray-100'
+                  }`}>
+                    <tr>
+                      {[
+                        ...tableColumns.map(column => ({ column, label: column })),
+                        { column: 'vertices', label: t.columnVertices },
+                        { column: 'area_m2', label: t.columnArea },
+                        { column: 'warnings', label: t.columnWarnings },
+                      ].map(({ column, label }) => (
+                        <th key={column} className="px-3 py-2 text-left font-medium whitespace-nowrap">
+                          <button onClick={() => handleSortColumn(column)} className="hover:underline">
+                            {label}
+                            {tableQuery.sortColumn === column && (tableQuery.sortDirection === 'asc' ? ' ▲' : ' ▼')}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {visibleRows.map(row => (
+                      <tr
+                        key={row.index}
+                        onClick={() => handleSelectRow(row.index)}
+                        className={`cursor-pointer border-t transition-colors duration-200 ${
+                          isDarkMode ? 'border-gray-700' : 'border-gray-100'
+                        } ${
+                          selectedFeature === row.index
+                            ? (isDarkMode ? 'bg-green-900' : 'bg-green-50')
+                            : (isDarkMode ? 'hover:bg-gray-700' : 'hover:bg-gray-50')
+                        }`}
+                      >
+                        {tableColumns.map(column => (
+                          <td key={column} className="px-3 py-1 whitespace-nowrap">{formatCell(row.values[column])}</td>
+                        ))}
+                        <td className="px-3 py-1 whitespace-nowrap text-right">{row.values.vertices}</td>
+                        <td className="px-3 py-1 whitespace-nowrap text-right">
+                          {typeof row.values.area_m2 === 'number' ? formatArea(row.values.area_m2) : ''}
+                        </td>
+                        <td className={`px-3 py-1 whitespace-nowrap text-right ${
+                          row.values.warnings ? (isDarkMode ? 'text-yellow-300' : 'text-yellow-700') : ''
+                        }`}>
+                          {row.values.warnings}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {visibleRows.length === 0 && (
+                  <p className={`p-4 text-sm text-center transition-colors duration-200 ${
+                    isDarkMode ? 'text-gray-400' : 'text-gray-500'
+                  }`}>
+                    {t.featureTableNoMatches}
                   </p>
-                </div>
-              )}
+                )}
+              </div>
             </div>
           </div>
         )}
@@ -1020,17 +2644,32 @@ export default function Home() {
               </h3>
             </div>
             
-            <p className={`text-sm mb-4 transition-colors duration-200 ${
+            <p className={`text-sm mb-1 transition-colors duration-200 ${
               isDarkMode ? 'text-yellow-200' : 'text-yellow-700'
             }`}>
               {t.warningSummary.replace('{count}', validationWarnings.length.toString())}
             </p>
+            <p className={`text-xs mb-4 transition-colors duration-200 ${
+              isDarkMode ? 'text-yellow-300' : 'text-yellow-600'
+            }`}>
+              {t.warningLocateHint}
+            </p>
             
             <div className="space-y-3">
               {validationWarnings.map((warning, index) => (
-                <div key={index} className={`p-3 rounded-md transition-colors duration-200 ${
-                  isDarkMode ? 'bg-yellow-800' : 'bg-yellow-100'
-                }`}>
+                <div
+                  key={index}
+                  data-warning-index={index}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => handleLocateWarning(index)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleLocateWarning(index);
+                  }}
+                  className={`p-3 rounded-md cursor-pointer transition-colors duration-200 ${
+                    isDarkMode ? 'bg-yellow-800 hover:bg-yellow-700' : 'bg-yellow-100 hover:bg-yellow-200'
+                  } ${focusedWarning === index ? (isDarkMode ? 'ring-2 ring-yellow-300' : 'ring-2 ring-yellow-500') : ''}`}
+                >
                   <div className="flex items-start justify-between">
                     <div className="flex-1">
                       <p className={`text-sm font-medium transition-colors duration-200 ${
@@ -1041,7 +2680,16 @@ export default function Home() {
                           : t.warningFeature.replace('{name}', warning.featureName)
                         }
                       </p>
-                      {warning.coordinateIndex !== -1 && (
+                      {warning.row !== undefined ? (
+                        <p className={`text-xs mt-1 transition-colors duration-200 ${
+                          isDarkMode ? 'text-yellow-300' : 'text-yellow-700'
+                        }`}>
+                          {t.warningRow
+                            .replace('{row}', warning.row.toString())
+                            .replace('{coordinate}', `[${warning.coordinate[0]}, ${warning.coordinate[1]}]`)
+                          }
+                        </p>
+                      ) : warning.coordinateIndex !== -1 && (
                         <p className={`text-xs mt-1 transition-colors duration-200 ${
                           isDarkMode ? 'text-yellow-300' : 'text-yellow-700'
                         }`}>
@@ -1056,17 +2704,35 @@ export default function Home() {
                       }`}>
                         {t.warningMessage.replace('{message}', warning.message)}
                       </p>
+                      {warning.relatedFeatureIndex === undefined && (
+                        <p className={`text-xs mt-1 transition-colors duration-200 ${
+                          isDarkMode ? 'text-yellow-300' : 'text-yellow-700'
+                        }`}>
+                          {t.warningAction.replace('{action}', actionLabels[warning.action])}
+                        </p>
+                      )}
+                      {warning.issue === 'swapped_axes' && warning.action === 'kept' && (
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setFixSwappedAxes(true);
+                            handleConvert({ fixSwappedAxes: true });
+                          }}
+                          disabled={loading}
+                          className={`mt-2 px-3 py-1 text-xs rounded-md transition-colors disabled:opacity-50 ${
+                            isDarkMode 
+                              ? 'bg-blue-600 text-white hover:bg-blue-700' 
+                              : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                          }`}
+                        >
+                          {t.applyFix}
+                        </button>
+                      )}
                     </div>
                     <div className={`ml-3 px-2 py-1 rounded text-xs font-medium transition-colors duration-200 ${
-                      warning.issue === 'both_invalid' 
-                        ? (isDarkMode ? 'bg-red-700 text-red-200' : 'bg-red-100 text-red-800')
-                        : warning.issue === 'invalid_json'
-                        ? (isDarkMode ? 'bg-purple-700 text-purple-200' : 'bg-purple-100 text-purple-800')
-                        : (isDarkMode ? 'bg-orange-700 text-orange-200' : 'bg-orange-100 text-orange-800')
+                      getIssueBadgeClass(warning.issue)
                     }`}>
-                      {warning.issue === 'both_invalid' ? t.warningBothInvalid : 
-                       warning.issue === 'invalid_latitude' ? t.warningInvalidLatitude : 
-                       warning.issue === 'invalid_longitude' ? t.warningInvalidLongitude : t.warningInvalidJson}
+                      {issueLabels[warning.issue]}
                     </div>
                   </div>
                 </div>
@@ -1169,6 +2835,9 @@ export default function Home() {
               }`}>
                 <div>{t.polygonFormat1}</div>
                 <div>{t.polygonFormat2}</div>
+                <div>{t.polygonFormat3}</div>
+                <div>{t.polygonFormat4}</div>
+                <div>{t.polygonFormat5}</div>
               </div>
             </div>
             
@@ -0,0 +1,4 @@
+#!/usr/bin/env node
+// Entry point for the `geojson-convert` command: run the TypeScript CLI through tsx
+require('tsx/cjs');
+require('./geojson-convert.ts');
@@ -0,0 +1,399 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { convert, ConversionError } from '../lib/converter';
+import { namedCRS, resolveCRS, WGS84 } from '../lib/crs';
+import { featuresBBox } from '../lib/metrics';
+import type { CoordinateWarning, GeoJSONFeature, InvalidDataPolicy, PropertyMapping, SimplifyOptions } from '../lib/types';
+
+const USAGE = `Usage: geojson-convert [options] [input ...]
+
+Convert station JSON files to GeoJSON.
+
+Inputs can be files, directories (all .json files, recursively) or glob
+patterns such as "dumps/**/*.json". Use "-" or no input to read from stdin.
+
+Options:
+  -o, --output <file>     Write one merged FeatureCollection to <file>
+  -d, --out-dir <dir>     Write one .geojson file per input into <dir>, keeping
+                          the input directories
+  -m, --mapping <file>    JSON file with a propertyMapping object
+      --compact           Write GeoJSON without indentation
+      --rewind            Rewind polygon rings to the RFC 7946 right-hand rule
+      --metrics           Add area_m2, perimeter_m, centroid and bbox to polygons
+      --fix-swapped-axes  Exchange latitude and longitude of stations that look
+                          swapped
+      --simplify <metres> Simplify lines and polygons with this tolerance
+      --simplify-algorithm <name>
+                          douglas-peucker (default) or visvalingam
+      --preserve-topology Never let simplified rings self-intersect or collapse
+      --source-crs <code> CRS of the input coordinates, e.g. EPSG:32748
+                          (default EPSG:4326)
+      --target-crs <code> CRS of the output coordinates (default EPSG:4326);
+                          other CRSs are not RFC 7946 GeoJSON
+      --invalid-data <policy>
+                          What to do with invalid coordinates: keep (default),
+                          drop_vertex, drop_feature or fail
+      --strict            Exit with code 2 if any validation warnings occur
+  -q, --quiet             Do not print warnings to stderr
+  -h, --help              Show this help
+
+Without --output or --out-dir, the merged FeatureCollection is written to stdout.
+Exit codes: 0 success, 1 input or conversion error, 2 warnings under --strict.`;
+
+const INVALID_DATA_POLICIES: InvalidDataPolicy[] = ['keep', 'drop_vertex', 'drop_feature', 'fail'];
+
+interface CLIOptions {
+  inputs: string[];
+  output?: string;
+  outDir?: string;
+  mapping?: string;
+  compact: boolean;
+  rewind: boolean;
+  metrics: boolean;
+  fixSwappedAxes: boolean;
+  simplify?: SimplifyOptions;
+  invalidData: InvalidDataPolicy;
+  sourceCrs: string;
+  targetCrs: string;
+  strict: boolean;
+  quiet: boolean;
+  help: boolean;
+}
+
+interface InputSource {
+  label: string; // File path, or "<stdin>"
+  read: () => string;
+}
+
+function parseArgs(argv: string[]): CLIOptions {
+  const options: CLIOptions = { inputs: [], compact: false, rewind: false, metrics: false, fixSwappedAxes: false, invalidData: 'keep', sourceCrs: WGS84, targetCrs: WGS84, strict: false, quiet: false, help: false };
+
+  const takeValue = (flag: string, index: number) => {
+    const value = argv[index + 1];
+    if (value === undefined || (value.startsWith('-') && value !== '-')) {
+      throw new Error(`Option ${flag} requires a value`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    switch (arg) {
+      case '-o':
+      case '--output':
+        options.output = takeValue(arg, i++);
+        break;
+      case '-d':
+      case '--out-dir':
+        options.outDir = takeValue(arg, i++);
+        break;
+      case '-m':
+      case '--mapping':
+        options.mapping = takeValue(arg, i++);
+        break;
+      case '--compact':
+        options.compact = true;
+        break;
+      case '--rewind':
+        options.rewind = true;
+        break;
+      case '--metrics':
+        options.metrics = true;
+        break;
+      case '--fix-swapped-axes':
+        options.fixSwappedAxes = true;
+        break;
+      case '--simplify': {
+        const value = takeValue(arg, i++);
+        const tolerance = Number(value);
+        if (isNaN(tolerance) || tolerance < 0) {
+          throw new Error(`Invalid --simplify tolerance "${value}": Expected a number of metres`);
+        }
+        options.simplify = { ...options.simplify, tolerance };
+        break;
+      }
+      case '--simplify-algorithm': {
+        const algorithm = takeValue(arg, i++);
+        if (algorithm !== 'douglas-peucker' && algorithm !== 'visvalingam') {
+          throw new Error(`Invalid --simplify-algorithm "${algorithm}": Expected douglas-peucker or visvalingam`);
+        }
+        options.simplify = { tolerance: 0, ...options.simplify, algorithm };
+        break;
+      }
+      case '--preserve-topology':
+        options.simplify = { tolerance: 0, ...options.simplify, preserveTopology: true };
+        break;
+      case '--source-crs':
+      case '--target-crs': {
+        const value = takeValue(arg, i++);
+        const code = resolveCRS(value);
+        if (!code) {
+          throw new Error(`Unsupported ${arg} "${value}": Expected an EPSG code such as EPSG:4326, EPSG:3857 or EPSG:32748`);
+        }
+        if (arg === '--source-crs') {
+          options.sourceCrs = code;
+        } else {
+          options.targetCrs = code;
+        }
+        break;
+      }
+      case '--invalid-data': {
+        const policy = takeValue(arg, i++);
+        if (INVALID_DATA_POLICIES.indexOf(policy as InvalidDataPolicy) === -1) {
+          throw new Error(`Invalid --invalid-data policy "${policy}": Expected ${INVALID_DATA_POLICIES.join(', ')}`);
+        }
+        options.invalidData = policy as InvalidDataPolicy;
+        break;
+      }
+      case '--strict':
+        options.strict = true;
+        break;
+      case '-q':
+      case '--quiet':
+        options.quiet = true;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('-') && arg !== '-') {
+          throw new Error(`Unknown option: ${arg}`);
+        }
+        options.inputs.push(arg);
+    }
+  }
+
+  if (options.output && options.outDir) {
+    throw new Error('Use either --output or --out-dir, not both');
+  }
+
+  return options;
+}
+
+// Convert a glob pattern (supports *, ? and **) to a regular expression on '/'-separated paths
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // "**/" matches any number of directories, including none
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function walkFiles(dir: string): string[] {
+  const files: string[] = [];
+  for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+    const fullPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...walkFiles(fullPath));
+    } else if (entry.isFile()) {
+      files.push(fullPath);
+    }
+  }
+  return files.sort();
+}
+
+function expandGlob(pattern: string): string[] {
+  // path.join() drops a leading "./" from walked paths, so normalize the pattern the same way
+  const normalized = path.posix.normalize(pattern.split(path.sep).join('/'));
+  const segments = normalized.split('/');
+  const firstWildcard = segments.findIndex(segment => /[*?]/.test(segment));
+  const baseDir = segments.slice(0, firstWildcard).join('/') || '.';
+
+  if (!fs.existsSync(baseDir) || !fs.statSync(baseDir).isDirectory()) {
+    return [];
+  }
+
+  const matcher = globToRegExp(normalized);
+  return walkFiles(baseDir).filter(file => matcher.test(file.split(path.sep).join('/')));
+}
+
+function resolveInputs(inputs: string[]): InputSource[] {
+  if (inputs.length === 0) {
+    inputs = ['-'];
+  }
+
+  const sources: InputSource[] = [];
+  for (const input of inputs) {
+    if (input === '-') {
+      sources.push({ label: '<stdin>', read: () => fs.readFileSync(0, 'utf8') });
+    } else if (/[*?]/.test(input)) {
+      const matches = expandGlob(input);
+      if (matches.length === 0) {
+        throw new Error(`No files match ${input}`);
+      }
+      matches.forEach(file => sources.push(fileSource(file)));
+    } else if (fs.existsSync(input) && fs.statSync(input).isDirectory()) {
+      walkFiles(input)
+        .filter(file => file.toLowerCase().endsWith('.json'))
+        .forEach(file => sources.push(fileSource(file)));
+    } else if (fs.existsSync(input)) {
+      sources.push(fileSource(input));
+    } else {
+      throw new Error(`Input not found: ${input}`);
+    }
+  }
+  return sources;
+}
+
+function fileSource(file: string): InputSource {
+  return { label: file, read: () => fs.readFileSync(file, 'utf8') };
+}
+
+// The --out-dir file of every input: its path relative to the deepest directory holding all
+// file inputs, so files of the same name in different directories are kept apart. stdin is
+// written to stdin.geojson. Throws when two inputs would still be written to the same file.
+function getOutputFiles(sources: InputSource[], outDir: string): string[] {
+  const dirs = sources
+    .filter(source => source.label !== '<stdin>')
+    .map(source => path.resolve(path.dirname(source.label)).split(path.sep));
+  let common = dirs.length > 0 ? dirs[0] : [];
+  for (const dir of dirs) {
+    let length = 0;
+    while (length < common.length && length < dir.length && common[length] === dir[length]) length++;
+    common = common.slice(0, length);
+  }
+  const baseDir = common.join(path.sep) || path.sep;
+
+  // Keyed case-insensitively, for case-insensitive file systems
+  const written: { [file: string]: string } = {};
+  return sources.map(source => {
+    const name = source.label === '<stdin>' ? 'stdin' : path.relative(baseDir, path.resolve(source.label)).replace(/\.json$/i, '');
+    const file = path.join(outDir, `${name}.geojson`);
+    const key = file.toLowerCase();
+    if (written[key] !== undefined) {
+      throw new Error(`${written[key]} and ${source.label} would both be written to ${file}`);
+    }
+    written[key] = source.label;
+    return file;
+  });
+}
+
+function formatWarning(label: string, warning: CoordinateWarning): string {
+  const location = warning.coordinateIndex === -1
+    ? `feature ${warning.featureIndex} "${warning.featureName}"`
+    : `feature ${warning.featureIndex} "${warning.featureName}", coordinate ${warning.coordinateIndex}`;
+  return `${label}: warning [${warning.issue}, ${warning.action}] ${location}: ${warning.message}`;
+}
+
+function main(argv: string[]): number {
+  let options: CLIOptions;
+  try {
+    options = parseArgs(argv);
+  } catch (error) {
+    process.stderr.write(`geojson-convert: ${(error as Error).message}\n\n${USAGE}\n`);
+    return 1;
+  }
+
+  if (options.help) {
+    process.stdout.write(`${USAGE}\n`);
+    return 0;
+  }
+
+  let propertyMapping: PropertyMapping | undefined;
+  let sources: InputSource[];
+  let outputFiles: string[];
+  try {
+    propertyMapping = options.mapping ? JSON.parse(fs.readFileSync(options.mapping, 'utf8')) : undefined;
+    sources = resolveInputs(options.inputs);
+    outputFiles = options.outDir ? getOutputFiles(sources, options.outDir) : [];
+  } catch (error) {
+    process.stderr.write(`geojson-convert: ${(error as Error).message}\n`);
+    return 1;
+  }
+
+  const indent = options.compact ? undefined : 2;
+  const mergedFeatures: GeoJSONFeature[] = [];
+  let warningCount = 0;
+  let failed = false;
+
+  for (let i = 0; i < sources.length; i++) {
+    const source = sources[i];
+    let data: unknown;
+    try {
+      data = JSON.parse(source.read());
+    } catch (error) {
+      process.stderr.write(`${source.label}: error: Invalid JSON: ${(error as Error).message}\n`);
+      failed = true;
+      continue;
+    }
+
+    try {
+      const { geojson, warnings, simplification } = convert(data, {
+        propertyMapping,
+        rewind: options.rewind,
+        invalidData: options.invalidData,
+        includeMetrics: options.metrics,
+        fixSwappedAxes: options.fixSwappedAxes,
+        simplify: options.simplify,
+        sourceCrs: options.sourceCrs,
+        targetCrs: options.targetCrs
+      });
+      warningCount += warnings.length;
+      if (!options.quiet) {
+        warnings.forEach(warning => process.stderr.write(`${formatWarning(source.label, warning)}\n`));
+      }
+      if (simplification && !options.quiet) {
+        const before = simplification.reduce((total, entry) => total + entry.verticesBefore, 0);
+        const after = simplification.reduce((total, entry) => total + entry.verticesAfter, 0);
+        process.stderr.write(`${source.label}: simplified ${simplification.length} feature(s) from ${before} to ${after} vertices\n`);
+      }
+
+      if (options.outDir) {
+        fs.mkdirSync(path.dirname(outputFiles[i]), { recursive: true });
+        fs.writeFileSync(outputFiles[i], `${JSON.stringify(geojson, null, indent)}\n`);
+      } else {
+        mergedFeatures.push(...geojson.features);
+      }
+    } catch (error) {
+      // Under --invalid-data fail, the error carries the warnings that caused it
+      if (error instanceof ConversionError && error.warnings && !options.quiet) {
+        error.warnings.forEach(warning => process.stderr.write(`${formatWarning(source.label, warning)}\n`));
+      }
+      const message = error instanceof ConversionError ? error.message : `Failed to convert data to GeoJSON: ${(error as Error).message}`;
+      process.stderr.write(`${source.label}: error: ${message}\n`);
+      failed = true;
+    }
+  }
+
+  if (!options.outDir) {
+    const bbox = featuresBBox(mergedFeatures);
+    const collection = {
+      type: 'FeatureCollection',
+      ...(options.targetCrs !== WGS84 ? { crs: namedCRS(options.targetCrs) } : {}),
+      ...(bbox ? { bbox } : {}),
+      features: mergedFeatures
+    };
+    const output = `${JSON.stringify(collection, null, indent)}\n`;
+    if (options.output) {
+      fs.writeFileSync(options.output, output);
+    } else {
+      process.stdout.write(output);
+    }
+  }
+
+  if (failed) {
+    return 1;
+  }
+  if (options.strict && warningCount > 0) {
+    process.stderr.write(`geojson-convert: ${warningCount} warning(s) found (--strict)\n`);
+    return 2;
+  }
+  return 0;
+}
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,230 @@
+import { getPolygons, getPositions, Position } from './geometry';
+import { createSpatialIndex } from './lookup';
+import { computeMetrics, positionsBBox } from './metrics';
+import { ringSignedArea } from './topology';
+import type { BBox, CoordinateWarning, GeoJSONFeature, GeoJSONGeometry, ValidationIssue } from './types';
+
+// A converted station, as seen by the dataset analysis
+export interface DatasetFeature {
+  featureIndex: number; // Index in the input, as in other warnings
+  name: string;
+  id?: any; // The station's id field, if any
+  geometry: GeoJSONGeometry;
+}
+
+// Issues found between features rather than within one
+export const DATASET_ISSUES: ValidationIssue[] = ['overlap', 'contained', 'duplicate_name', 'duplicate_id', 'duplicate_geometry'];
+
+// Overlaps smaller than this (m²) are rounding noise from shared edges
+const MIN_OVERLAP_AREA = 0.01;
+
+// A feature counts as contained when the overlap covers all but this fraction of its area
+const CONTAINED_TOLERANCE = 1e-6;
+
+// > 0 when c lies left of a-b
+function cross(a: Position, b: Position, c: Position): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+// Ring without its closing position and repeated vertices, counter-clockwise
+function openRing(ring: Position[]): Position[] {
+  const open = ring.filter((position, i) =>
+    i === 0 || position[0] !== ring[i - 1][0] || position[1] !== ring[i - 1][1]
+  );
+  const first = open[0];
+  const last = open[open.length - 1];
+  if (open.length > 1 && first[0] === last[0] && first[1] === last[1]) {
+    open.pop();
+  }
+  return ringSignedArea(open) < 0 ? open.reverse() : open;
+}
+
+function inTriangle(p: Position, a: Position, b: Position, c: Position): boolean {
+  return cross(a, b, p) >= 0 && cross(b, c, p) >= 0 && cross(c, a, p) >= 0;
+}
+
+// Ear clipping triangulation of a simple counter-clockwise ring. Returns null when the ring is
+// not simple enough to triangulate (e.g. it intersects itself).
+function triangulate(ring: Position[]): Position[][] | null {
+  const indexes = ring.map((_, i) => i);
+  const triangles: Position[][] = [];
+
+  while (indexes.length > 3) {
+    let clipped = false;
+    for (let i = 0; i < indexes.length && !clipped; i++) {
+      const a = ring[indexes[(i + indexes.length - 1) % indexes.length]];
+      const b = ring[indexes[i]];
+      const c = ring[indexes[(i + 1) % indexes.length]];
+      const turn = cross(a, b, c);
+      if (turn < 0) continue;
+
+      // A collinear vertex adds no area and can go without a triangle
+      const isEar = turn === 0 || !indexes.some(index => {
+        const p = ring[index];
+        return p !== a && p !== b && p !== c && inTriangle(p, a, b, c);
+      });
+      if (isEar) {
+        if (turn > 0) triangles.push([a, b, c]);
+        indexes.splice(i, 1);
+        clipped = true;
+      }
+    }
+    if (!clipped) return null;
+  }
+
+  if (indexes.length === 3 && cross(ring[indexes[0]], ring[indexes[1]], ring[indexes[2]]) > 0) {
+    triangles.push(indexes.map(index => ring[index]));
+  }
+  return triangles;
+}
+
+// Sutherland-Hodgman: the part of a polygon inside a counter-clockwise triangle
+function clipToTriangle(subject: Position[], triangle: Position[]): Position[] {
+  let output = subject;
+  for (let i = 0; i < 3 && output.length > 0; i++) {
+    const a = triangle[i];
+    const b = triangle[(i + 1) % 3];
+    const input = output;
+    output = [];
+    input.forEach((current, j) => {
+      const previous = input[(j + input.length - 1) % input.length];
+      const currentSide = cross(a, b, current);
+      const previousSide = cross(a, b, previous);
+      if ((currentSide >= 0) !== (previousSide >= 0)) {
+        const t = previousSide / (previousSide - currentSide);
+        output.push([previous[0] + t * (current[0] - previous[0]), previous[1] + t * (current[1] - previous[1])]);
+      }
+      if (currentSide >= 0) {
+        output.push(current);
+      }
+    });
+  }
+  return output;
+}
+
+function bboxesIntersect(a: BBox, b: BBox): boolean {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+}
+
+// Outer rings of a feature, prepared for overlap tests. Holes are not taken into account.
+interface Shell {
+  ring: Position[];
+  bbox: BBox;
+  // Triangulated on first use, as ear clipping is slow for large rings and most rings never
+  // meet another one
+  triangles(): Position[][] | null;
+}
+
+function toShells(geometry: GeoJSONGeometry): Shell[] {
+  return getPolygons(geometry)
+    .map(rings => openRing(rings[0] || []))
+    .filter(ring => ring.length >= 3)
+    .map(ring => {
+      let triangles: Position[][] | null | undefined;
+      return {
+        ring,
+        bbox: positionsBBox(ring)!,
+        triangles: () => {
+          if (triangles === undefined) triangles = triangulate(ring);
+          return triangles;
+        }
+      };
+    });
+}
+
+// The region where two features' outer rings overlap, as a MultiPolygon of convex pieces, or
+// null when they do not overlap or a ring cannot be triangulated
+function overlapRegion(a: Shell[], b: Shell[]): GeoJSONGeometry | null {
+  const pieces: Position[][][] = [];
+  for (const shellA of a) {
+    for (const shellB of b) {
+      const triangles = bboxesIntersect(shellA.bbox, shellB.bbox) ? shellB.triangles() : null;
+      if (!triangles) continue;
+      triangles.forEach(triangle => {
+        const piece = clipToTriangle(shellA.ring, triangle);
+        if (piece.length >= 3 && Math.abs(ringSignedArea(piece)) > 0) {
+          pieces.push([[...piece, piece[0]]]);
+        }
+      });
+    }
+  }
+  return pieces.length > 0 ? { type: 'MultiPolygon', coordinates: pieces } : null;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+// Find problems between the stations of a dataset: overlapping polygons (with the overlap area
+// and region), polygons entirely inside another, and stations sharing a name, an id or an
+// identical geometry. Each issue is reported once, on the later feature for duplicates and on
+// the earlier feature of an overlapping pair.
+export function analyzeDataset(items: DatasetFeature[]): CoordinateWarning[] {
+  const warnings: CoordinateWarning[] = [];
+  const warn = (item: DatasetFeature, other: DatasetFeature, issue: ValidationIssue, message: string, extra: Partial<CoordinateWarning> = {}) => {
+    const first = getPositions(extra.overlap || item.geometry)[0];
+    warnings.push({
+      featureIndex: item.featureIndex,
+      featureName: item.name,
+      coordinateIndex: -1,
+      coordinate: [first[0], first[1]],
+      issue,
+      message,
+      action: 'kept',
+      relatedFeatureIndex: other.featureIndex,
+      ...extra
+    });
+  };
+  const label = (item: DatasetFeature) => `feature ${item.featureIndex} "${item.name}"`;
+
+  // Duplicates: the first feature with a key is the original
+  const seen: { [kind: string]: { [key: string]: DatasetFeature } } = { name: {}, id: {}, geometry: {} };
+  const identicalGeometry: { [pair: string]: boolean } = {};
+  items.forEach(item => {
+    const check = (kind: string, key: string, issue: ValidationIssue, message: string) => {
+      const original = seen[kind][key];
+      if (original) {
+        warn(item, original, issue, `${message} ${label(original)}`);
+        if (kind === 'geometry') identicalGeometry[`${original.featureIndex}:${item.featureIndex}`] = true;
+      } else {
+        seen[kind][key] = item;
+      }
+    };
+    const name = String(item.name).trim();
+    check('name', name.toLowerCase(), 'duplicate_name', `Name "${name}" is also used by`);
+    if (item.id !== undefined && item.id !== null && item.id !== '') {
+      check('id', String(item.id), 'duplicate_id', `id ${JSON.stringify(item.id)} is also used by`);
+    }
+    check('geometry', JSON.stringify(item.geometry), 'duplicate_geometry', 'Geometry is identical to');
+  });
+
+  // Overlaps between polygons whose bounding boxes intersect
+  const polygons = items.filter(item => getPolygons(item.geometry).length > 0);
+  const shells = polygons.map(item => toShells(item.geometry));
+  const areas = polygons.map((item, i) => {
+    const metrics = computeMetrics({ type: 'MultiPolygon', coordinates: shells[i].map(shell => [[...shell.ring, shell.ring[0]]]) });
+    return metrics ? metrics.area_m2 : 0;
+  });
+  const index = createSpatialIndex(polygons.map((item): GeoJSONFeature => ({ type: 'Feature', properties: { name: item.name }, geometry: item.geometry })));
+
+  polygons.forEach((item, i) => {
+    index.search(positionsBBox(getPositions(item.geometry))!).filter(j => j > i).forEach(j => {
+      const other = polygons[j];
+      if (identicalGeometry[`${item.featureIndex}:${other.featureIndex}`]) return;
+
+      const region = overlapRegion(shells[i], shells[j]);
+      const metrics = region && computeMetrics(region);
+      if (!region || !metrics || metrics.area_m2 < MIN_OVERLAP_AREA) return;
+
+      const area = metrics.area_m2;
+      const extra = { overlapArea_m2: round(area), overlap: region };
+      if (area >= areas[i] * (1 - CONTAINED_TOLERANCE)) {
+        warn(item, other, 'contained', `Lies entirely inside ${label(other)}`, extra);
+      } else if (area >= areas[j] * (1 - CONTAINED_TOLERANCE)) {
+        warn(other, item, 'contained', `Lies entirely inside ${label(item)}`, extra);
+      } else {
+        warn(item, other, 'overlap', `Overlaps ${label(other)} by ${round(area)} m²`, extra);
+      }
+    });
+  });
+
+  return warnings;
+}
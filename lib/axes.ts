@@ -0,0 +1,76 @@
+import { getPositions, mapPositions, Position } from './geometry';
+import { distance, formatLength, positionsBBox } from './metrics';
+import type { GeoJSONGeometry } from './types';
+import { toNumber } from './validation';
+
+// Swapped, a station must lie this many times closer to the middle of the dataset
+const CLOSER_FACTOR = 10;
+
+// Smaller datasets have no meaningful middle
+const MIN_DATASET_SIZE = 3;
+
+function inRange(lng: number, lat: number): boolean {
+  return lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+}
+
+// Positions as numbers, or null when any value is not a number (left for validation to report)
+function numericPositions(geometry: GeoJSONGeometry): Position[] | null {
+  const positions = getPositions(geometry).map(position => [toNumber(position[0]), toNumber(position[1])]);
+  return positions.length > 0 && positions.every(([x, y]) => isFinite(x) && isFinite(y)) ? positions : null;
+}
+
+function bboxCenter(positions: Position[]): Position {
+  const bbox = positionsBBox(positions)!;
+  return [(bbox[0] + bbox[2]) / 2, (bbox[1] + bbox[3]) / 2];
+}
+
+function median(values: number[]): number {
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+// Exchange the longitude and latitude of every position. Extra ordinates are kept.
+export function swapAxes(geometry: GeoJSONGeometry): GeoJSONGeometry {
+  return mapPositions(geometry, position => [position[1], position[0], ...position.slice(2)]);
+}
+
+// The middle of a dataset: the median longitude and latitude of the bbox centres of the stations
+// whose coordinates are all valid as read. Null for fewer than 3 such stations.
+export function datasetCenter(geometries: GeoJSONGeometry[]): Position | null {
+  const centers: Position[] = [];
+  geometries.forEach(geometry => {
+    const positions = numericPositions(geometry);
+    if (positions && positions.every(([lng, lat]) => inRange(lng, lat))) {
+      centers.push(bboxCenter(positions));
+    }
+  });
+  if (centers.length < MIN_DATASET_SIZE) {
+    return null;
+  }
+  return [median(centers.map(center => center[0])), median(centers.map(center => center[1]))];
+}
+
+// Why the longitude and latitude of a geometry look swapped, or null when they do not. They do
+// when some coordinates are out of range and swapping makes all of them valid, or when all are
+// valid either way but swapped the station lies much closer to the middle of the dataset.
+export function detectSwappedAxes(geometry: GeoJSONGeometry, center: Position | null = null): string | null {
+  const positions = numericPositions(geometry);
+  if (!positions || !positions.every(([lng, lat]) => inRange(lat, lng))) {
+    return null;
+  }
+  if (!positions.every(([lng, lat]) => inRange(lng, lat))) {
+    return 'Latitude and longitude look swapped: every coordinate is valid when they are exchanged';
+  }
+  if (!center) {
+    return null;
+  }
+
+  const middle = bboxCenter(positions);
+  const asRead = distance(middle, center);
+  const swapped = distance([middle[1], middle[0]], center);
+  if (swapped * CLOSER_FACTOR >= asRead) {
+    return null;
+  }
+  return `Latitude and longitude look swapped: exchanged, the station lies ${formatLength(swapped)} from the middle of the dataset instead of ${formatLength(asRead)}`;
+}
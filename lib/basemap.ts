@@ -0,0 +1,101 @@
+import type { Position } from './geometry';
+import type { BBox } from './types';
+
+// Tiles from an XYZ URL template, images from a WMS service, or no basemap at all
+export type BasemapType = 'xyz' | 'wms' | 'none';
+
+export interface Basemap {
+  type: BasemapType;
+  url: string; // XYZ template with {z}, {x} and {y}, or the WMS service URL
+  layers?: string; // WMS layers, comma separated
+  attribution?: string; // HTML
+}
+
+export const OSM_BASEMAP: Basemap = {
+  type: 'xyz',
+  url: 'https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png',
+  attribution: "&copy; <a href='https://www.openstreetmap.org/copyright'>OpenStreetMap</a> contributors"
+};
+
+export const NO_BASEMAP: Basemap = { type: 'none', url: '' };
+
+// Whether a basemap has everything needed to load it: an http(s) or site-relative URL, the
+// {z}/{x}/{y} placeholders of an XYZ template, and the layers of a WMS service
+export function isValidBasemap(basemap: Basemap): boolean {
+  if (basemap.type === 'none') return true;
+  const url = basemap.url.trim();
+  if (!/^(https?:\/\/|\/)/i.test(url)) return false;
+  if (basemap.type === 'xyz') {
+    return ['{z}', '{x}', '{y}'].every(placeholder => url.indexOf(placeholder) !== -1);
+  }
+  return !!basemap.layers && basemap.layers.trim() !== '';
+}
+
+// The default basemap from the NEXT_PUBLIC_MAP_TILE_URL, NEXT_PUBLIC_MAP_WMS_LAYERS and
+// NEXT_PUBLIC_MAP_TILE_ATTRIBUTION settings: "none" for no basemap, a WMS service when layers
+// are set, or else an XYZ template. OpenStreetMap when unset or invalid.
+export function getConfiguredBasemap(url?: string, layers?: string, attribution?: string): Basemap {
+  if (!url || url.trim() === '') return OSM_BASEMAP;
+  if (url.trim().toLowerCase() === 'none') return NO_BASEMAP;
+
+  const basemap: Basemap = layers && layers.trim() !== ''
+    ? { type: 'wms', url: url.trim(), layers: layers.trim(), attribution }
+    : { type: 'xyz', url: url.trim(), attribution };
+  if (!isValidBasemap(basemap)) {
+    console.warn(`Ignoring invalid map tile URL "${url}", using OpenStreetMap`);
+    return OSM_BASEMAP;
+  }
+  return basemap;
+}
+
+// Grid spacings in degrees, from coarse to fine
+const GRID_STEPS = [30, 10, 5, 2, 1, 0.5, 0.2, 0.1, 0.05, 0.02, 0.01, 0.005, 0.002, 0.001, 0.0005, 0.0002, 0.0001];
+
+// The finest spacing that keeps the grid to this many lines across the view
+const MAX_GRID_LINES = 10;
+
+// A meridian (axis 'lng') or parallel (axis 'lat') of the coordinate grid
+export interface GridLine {
+  axis: 'lat' | 'lng';
+  value: number;
+  label: string; // e.g. 106.8°E or 6.25°S
+  positions: Position[];
+}
+
+function formatDegrees(value: number, axis: 'lat' | 'lng', decimals: number): string {
+  // Longitudes of a world wrapped around the antimeridian are labelled within -180..180
+  const normalized = axis === 'lng' ? ((value + 540) % 360) - 180 : value;
+  const rounded = parseFloat(normalized.toFixed(decimals));
+  if (rounded === 0 || Math.abs(rounded) === 180) return `${Math.abs(rounded)}°`;
+  const hemisphere = axis === 'lat' ? (rounded < 0 ? 'S' : 'N') : (rounded < 0 ? 'W' : 'E');
+  return `${Math.abs(rounded).toFixed(decimals)}°${hemisphere}`;
+}
+
+// Meridians and parallels across a view, at a round spacing that suits its size
+export function createGraticule(bbox: BBox): GridLine[] {
+  const [west, minLat, east, maxLat] = bbox;
+  const south = Math.max(-90, minLat);
+  const north = Math.min(90, maxLat);
+  if (!(east > west) || !(north > south)) return [];
+
+  const span = Math.max(east - west, north - south);
+  const fitting = GRID_STEPS.filter(step => span / step <= MAX_GRID_LINES);
+  const step = fitting.length > 0 ? fitting[fitting.length - 1] : GRID_STEPS[0];
+  const decimals = Math.max(0, Math.ceil(-Math.log10(step)));
+
+  const lines: GridLine[] = [];
+  const addLines = (axis: 'lat' | 'lng', from: number, to: number) => {
+    for (let i = Math.ceil(from / step); i <= Math.floor(to / step); i++) {
+      const value = parseFloat((i * step).toFixed(decimals));
+      lines.push({
+        axis,
+        value,
+        label: formatDegrees(value, axis, decimals),
+        positions: axis === 'lng' ? [[value, south], [value, north]] : [[west, value], [east, value]]
+      });
+    }
+  };
+  addLines('lng', west, east);
+  addLines('lat', south, north);
+  return lines;
+}
@@ -0,0 +1,279 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { convert, ConversionError } from './converter';
+import type { ConvertOptions, CoordinatePoint, PropertyMapping, ValidationIssue } from './types';
+
+// Corners of a square of 0.01° with its south-west corner at [lng, lat], counter-clockwise
+function square(lng: number, lat: number, size = 0.01): number[][] {
+  return [[lng, lat], [lng + size, lat], [lng + size, lat + size], [lng, lat + size]];
+}
+
+function toPoints(positions: number[][]): CoordinatePoint[] {
+  return positions.map(([lng, lat]) => ({ lat, long: lng }));
+}
+
+function station(name: string, polygon: any, fields: { [key: string]: any } = {}) {
+  return { name, polygon, ...fields };
+}
+
+const STATION = square(106.8, -6.21);
+
+function issuesOf(data: unknown, options: ConvertOptions = {}): ValidationIssue[] {
+  return convert(data, options).warnings.map(warning => warning.issue);
+}
+
+describe('convert', () => {
+  describe('coordinates', () => {
+    const keyVariants: Array<[string, string]> = [['lat', 'long'], ['lat', 'lng'], ['latitude', 'longitude'], ['lat', 'lon']];
+    keyVariants.forEach(([latKey, lngKey]) => {
+      it(`reads ${latKey}/${lngKey} coordinates`, () => {
+        const polygon = STATION.map(([lng, lat]) => ({ [latKey]: lat, [lngKey]: lng }));
+        const { geojson, warnings } = convert([station('A', polygon)]);
+        assert.deepEqual(warnings, []);
+        assert.deepEqual(geojson.features[0].geometry.coordinates, [[...STATION, STATION[0]]]);
+      });
+    });
+
+    it('reads numeric strings as numbers', () => {
+      const polygon = STATION.map(([lng, lat]) => ({ lat: String(lat), lng: String(lng) }));
+      const { geojson, warnings } = convert([station('A', polygon)]);
+      assert.deepEqual(warnings, []);
+      assert.deepEqual(geojson.features[0].geometry.coordinates, [[...STATION, STATION[0]]]);
+    });
+
+    it('keeps a coordinate that is not a number as 0', () => {
+      const polygon = toPoints(STATION);
+      polygon[2] = { lat: 'abc', long: STATION[2][0] };
+      const { geojson, warnings } = convert([station('A', polygon)]);
+      const warning = warnings.filter(item => item.issue === 'invalid_latitude')[0];
+      assert.equal(warning.coordinateIndex, 2);
+      assert.equal(warning.action, 'kept');
+      assert.deepEqual((geojson.features[0].geometry.coordinates as number[][][])[0][2], [STATION[2][0], 0]);
+    });
+
+    it('closes rings', () => {
+      const ring = (convert([station('A', toPoints(STATION))]).geojson.features[0].geometry.coordinates as number[][][])[0];
+      assert.equal(ring.length, STATION.length + 1);
+      assert.deepEqual(ring[ring.length - 1], ring[0]);
+    });
+
+    it('does not repeat the first position of a closed ring', () => {
+      const ring = (convert([station('A', toPoints([...STATION, STATION[0]]))]).geojson.features[0].geometry.coordinates as number[][][])[0];
+      assert.equal(ring.length, STATION.length + 1);
+    });
+  });
+
+  describe('input shapes', () => {
+    it('converts simple input', () => {
+      const { geojson, featureIndexes } = convert([
+        station('A', toPoints(STATION), { id: 1 }),
+        station('B', toPoints(square(106.9, -6.21)), { id: 2 })
+      ]);
+      assert.deepEqual(geojson.features.map(feature => feature.properties), [{ name: 'A', id: 1 }, { name: 'B', id: 2 }]);
+      assert.deepEqual(featureIndexes, [0, 1]);
+    });
+
+    it('converts nested input with prefixed area fields', () => {
+      const { geojson, featureIndexes } = convert([
+        { id: 10, area_name: 'North', area_list: [station('A', toPoints(STATION))] },
+        { id: 11, area_name: 'South', area_list: [station('B', toPoints(square(106.9, -6.21))), station('C', toPoints(square(107, -6.21)))] }
+      ]);
+      assert.deepEqual(geojson.features.map(feature => feature.properties), [
+        { name: 'A', area_id: 10, area_name: 'North' },
+        { name: 'B', area_id: 11, area_name: 'South' },
+        { name: 'C', area_id: 11, area_name: 'South' }
+      ]);
+      assert.deepEqual(featureIndexes, [0, 1, 2]);
+    });
+
+    it('parses stringified coordinate arrays', () => {
+      const { geojson, warnings } = convert([station('A', JSON.stringify(toPoints(STATION)))]);
+      assert.deepEqual(warnings, []);
+      assert.deepEqual(geojson.features[0].geometry.coordinates, [[...STATION, STATION[0]]]);
+    });
+
+    it('parses a WKT polygon', () => {
+      const wkt = `POLYGON((${[...STATION, STATION[0]].map(([lng, lat]) => `${lng} ${lat}`).join(', ')}))`;
+      const { geojson, warnings } = convert([station('A', wkt)]);
+      assert.deepEqual(warnings, []);
+      assert.deepEqual(geojson.features[0].geometry, { type: 'Polygon', coordinates: [[...STATION, STATION[0]]] });
+    });
+
+    it('takes a GeoJSON geometry as it is', () => {
+      const geometry = { type: 'Polygon', coordinates: [[...STATION, STATION[0]]] };
+      const { geojson, warnings } = convert([station('A', geometry), station('B', JSON.stringify(geometry))]);
+      assert.deepEqual(warnings.filter(warning => warning.issue !== 'duplicate_geometry'), []);
+      assert.deepEqual(geojson.features.map(feature => feature.geometry), [geometry, geometry]);
+    });
+
+    it('makes a Point of a single coordinate', () => {
+      const { geojson } = convert([station('A', toPoints([STATION[0]]))]);
+      assert.deepEqual(geojson.features[0].geometry, { type: 'Point', coordinates: STATION[0] });
+    });
+
+    it('follows geometry_type', () => {
+      const { geojson } = convert([station('A', toPoints(STATION), { geometry_type: 'LineString' })]);
+      assert.deepEqual(geojson.features[0].geometry, { type: 'LineString', coordinates: STATION });
+    });
+
+    it('makes a LineString of a line or path field', () => {
+      const { geojson } = convert([
+        { name: 'A', line: toPoints(STATION) },
+        { name: 'B', path: toPoints(square(106.9, -6.21)) }
+      ]);
+      assert.deepEqual(geojson.features.map(feature => feature.geometry), [
+        { type: 'LineString', coordinates: STATION },
+        { type: 'LineString', coordinates: square(106.9, -6.21) }
+      ]);
+    });
+
+    it('reads nested rings as a polygon with holes', () => {
+      const hole = square(106.802, -6.208, 0.002).reverse();
+      const { geojson, warnings } = convert([station('A', [toPoints(STATION), toPoints(hole)])]);
+      assert.deepEqual(warnings, []);
+      assert.deepEqual(geojson.features[0].geometry, { type: 'Polygon', coordinates: [[...STATION, STATION[0]], [...hole, hole[0]]] });
+    });
+
+    it('reads a list of polygons as a MultiPolygon', () => {
+      const other = square(106.9, -6.21);
+      const { geojson, warnings } = convert([station('A', [[toPoints(STATION)], [toPoints(other)]])]);
+      assert.deepEqual(warnings, []);
+      assert.deepEqual(geojson.features[0].geometry, {
+        type: 'MultiPolygon',
+        coordinates: [[[...STATION, STATION[0]]], [[...other, other[0]]]]
+      });
+    });
+
+    it('rejects input without a name', () => {
+      assert.throws(() => convert([{ polygon: toPoints(STATION) }]), ConversionError);
+    });
+
+    it('rejects input that is not an array', () => {
+      assert.throws(() => convert({ name: 'A' }), ConversionError);
+    });
+  });
+
+  describe('property mapping', () => {
+    const data = [{ id: 10, area_name: 'North', area_list: [station('A', toPoints(STATION), { id: 1, address: 'Jl. Sudirman', type: 'gate' })] }];
+    const propertiesOf = (propertyMapping: PropertyMapping) => convert(data, { propertyMapping }).geojson.features[0].properties;
+
+    it('keeps only included properties', () => {
+      assert.deepEqual(propertiesOf({ include: ['name', 'id', 'area_name'] }), { name: 'A', id: 1, area_name: 'North' });
+    });
+
+    it('drops excluded properties', () => {
+      assert.deepEqual(propertiesOf({ exclude: ['address', 'area_id'] }), { name: 'A', id: 1, type: 'gate', area_name: 'North' });
+    });
+
+    it('renames properties', () => {
+      assert.deepEqual(propertiesOf({ include: ['name', 'area_name'], rename: { area_name: 'district' } }), { name: 'A', district: 'North' });
+    });
+
+    it('uses the area prefix and can leave out area fields', () => {
+      assert.deepEqual(propertiesOf({ include: ['name', 'parent_id'], areaPrefix: 'parent_' }), { name: 'A', parent_id: 10 });
+      assert.deepEqual(propertiesOf({ includeAreaFields: false, exclude: ['address', 'type'] }), { name: 'A', id: 1 });
+    });
+  });
+
+  describe('coordinate reference systems', () => {
+    // STATION in Web Mercator metres
+    const mercator = STATION.map(([lng, lat]) => [
+      lng * Math.PI / 180 * 6378137,
+      Math.log(Math.tan(Math.PI / 4 + lat * Math.PI / 360)) * 6378137
+    ]);
+    const assertPositions = (actual: number[][], expected: number[][], delta: number) => {
+      assert.equal(actual.length, expected.length);
+      actual.forEach((position, i) => {
+        assert.ok(Math.abs(position[0] - expected[i][0]) < delta && Math.abs(position[1] - expected[i][1]) < delta, `position ${i}: ${position} != ${expected[i]}`);
+      });
+    };
+
+    it('reprojects the input from sourceCrs', () => {
+      const { geojson, warnings } = convert([station('A', toPoints(mercator))], { sourceCrs: 'EPSG:3857' });
+      assert.deepEqual(warnings, []);
+      assert.equal(geojson.crs, undefined);
+      assertPositions((geojson.features[0].geometry.coordinates as number[][][])[0], [...STATION, STATION[0]], 1e-9);
+    });
+
+    it('reprojects the output to targetCrs and names it in a crs member', () => {
+      const { geojson } = convert([station('A', toPoints(STATION))], { targetCrs: 'EPSG:3857' });
+      assert.deepEqual(geojson.crs, { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::3857' } });
+      assertPositions((geojson.features[0].geometry.coordinates as number[][][])[0], [...mercator, mercator[0]], 1e-3);
+    });
+
+    it('rejects an unsupported crs', () => {
+      assert.throws(() => convert([station('A', toPoints(STATION))], { targetCrs: 'EPSG:1234' }), ConversionError);
+    });
+  });
+
+  describe('validation issues', () => {
+    const clockwise = STATION.slice().reverse();
+    const bowTie = [[106.8, -6.21], [106.81, -6.2], [106.81, -6.21], [106.8, -6.2]];
+    const withPoint = (index: number, point: CoordinatePoint) => {
+      const polygon = toPoints(STATION);
+      polygon[index] = point;
+      return polygon;
+    };
+
+    // One input per issue kind; the mapped type makes sure every kind is covered
+    const cases: { [issue in ValidationIssue]: unknown } = {
+      invalid_latitude: [station('A', withPoint(1, { lat: 95, long: 106.81 }))],
+      invalid_longitude: [station('A', withPoint(1, { lat: -6.21, long: 'east' }))],
+      both_invalid: [station('A', withPoint(1, { lat: 'north', long: 'east' }))],
+      invalid_json: [station('A', '[{"lat": -6.21, "long": 106.8')],
+      invalid_wkt: [station('A', 'POLYGON((106.8 -6.21, 106.81')],
+      invalid_geometry: [station('A', toPoints(STATION), { geometry_type: 'Circle' })],
+      self_intersection: [station('A', toPoints(bowTie))],
+      too_few_points: [station('A', toPoints(STATION.slice(0, 2)))],
+      wrong_winding: [station('A', toPoints(clockwise))],
+      duplicate_vertex: [station('A', toPoints([STATION[0], STATION[1], STATION[1], STATION[2], STATION[3]]))],
+      zero_area: [station('A', toPoints([[106.8, -6.21], [106.81, -6.21], [106.82, -6.21]]))],
+      hole_outside_shell: [station('A', [toPoints(STATION), toPoints(square(106.9, -6.21).reverse())])],
+      swapped_axes: [station('A', STATION.map(([lng, lat]) => ({ lat: lng, long: lat })))],
+      overlap: [station('A', toPoints(STATION)), station('B', toPoints(square(106.805, -6.205)))],
+      contained: [station('A', toPoints(STATION)), station('B', toPoints(square(106.802, -6.208, 0.002)))],
+      duplicate_name: [station('A', toPoints(STATION)), station('a ', toPoints(square(106.9, -6.21)))],
+      duplicate_id: [station('A', toPoints(STATION), { id: 7 }), station('B', toPoints(square(106.9, -6.21)), { id: 7 })],
+      duplicate_geometry: [station('A', toPoints(STATION)), station('B', toPoints(STATION))]
+    };
+
+    (Object.keys(cases) as ValidationIssue[]).forEach(issue => {
+      it(`reports ${issue}`, () => {
+        assert.ok(issuesOf(cases[issue]).indexOf(issue) !== -1, `no ${issue} warning`);
+      });
+    });
+
+    it('reports nothing for a valid station', () => {
+      assert.deepEqual(issuesOf([station('A', toPoints(STATION))]), []);
+    });
+
+    it('drops the invalid vertex under drop_vertex', () => {
+      const { geojson, warnings } = convert([station('A', withPoint(1, { lat: 95, long: 106.81 }))], { invalidData: 'drop_vertex' });
+      assert.equal(warnings[0].action, 'vertex_dropped');
+      assert.equal((geojson.features[0].geometry.coordinates as number[][][])[0].length, STATION.length);
+    });
+
+    it('drops the station under drop_feature', () => {
+      const { geojson, warnings } = convert([station('A', withPoint(1, { lat: 95, long: 106.81 }))], { invalidData: 'drop_feature' });
+      assert.equal(warnings[0].action, 'feature_dropped');
+      assert.equal(geojson.features.length, 0);
+    });
+
+    it('swaps the axes back under fixSwappedAxes', () => {
+      const { geojson, warnings } = convert([station('A', STATION.map(([lng, lat]) => ({ lat: lng, long: lat })))], { fixSwappedAxes: true });
+      assert.deepEqual(warnings.map(warning => [warning.issue, warning.action]), [['swapped_axes', 'fixed']]);
+      assert.deepEqual(geojson.features[0].geometry.coordinates, [[...STATION, STATION[0]]]);
+    });
+
+    it('throws with the warnings under fail', () => {
+      try {
+        convert([station('A', '[{"lat": -6.21')], { invalidData: 'fail' });
+        assert.fail('expected a ConversionError');
+      } catch (error) {
+        assert.ok(error instanceof ConversionError);
+        assert.equal(error.status, 422);
+        assert.deepEqual(error.warnings!.map(warning => [warning.issue, warning.action]), [['invalid_json', 'failed']]);
+      }
+    });
+  });
+});
@@ -0,0 +1,722 @@
+import type {
+  AreaData,
+  ConvertOptions,
+  ConvertResult,
+  CoordinateWarning,
+  FeatureData,
+  GeoJSONFeature,
+  GeoJSONGeometry,
+  GeometryType,
+  InvalidDataPolicy,
+  Marker,
+  PropertyMapping,
+  SimplifyReport,
+  ValidationIssue,
+  WarningAction,
+} from './types';
+import { analyzeDataset, DatasetFeature } from './analysis';
+import { datasetCenter, detectSwappedAxes, swapAxes } from './axes';
+import { createTransform, isGeographicCRS, namedCRS, resolveCRS, WGS84 } from './crs';
+import { filterPositions, getPositions, mapPositions, parseGeoJSONGeometry, Position } from './geometry';
+import { computeMetrics, featuresBBox, positionsBBox } from './metrics';
+import { countVertices, simplifyGeometry } from './simplify';
+import { checkTopology, rewindGeometry } from './topology';
+import { toNumber, validateCoordinate } from './validation';
+import { looksLikeWKT, parseWKT } from './wkt';
+
+// Thrown for input the converter cannot process at all (as opposed to per-coordinate warnings).
+// Under the 'fail' policy it carries the warnings that caused the failure.
+export class ConversionError extends Error {
+  status: number;
+  warnings?: CoordinateWarning[];
+
+  constructor(message: string, status = 400, warnings?: CoordinateWarning[]) {
+    super(message);
+    this.name = 'ConversionError';
+    this.status = status;
+    this.warnings = warnings;
+    // Keep instanceof working when compiled down to ES5
+    Object.setPrototypeOf(this, ConversionError.prototype);
+  }
+}
+
+// Fields that may hold a station's coordinates, in order of precedence. Coordinates in a line
+// or path field describe an open path.
+export const GEOMETRY_FIELDS = ['polygon', 'line', 'path'];
+
+// A station together with its parent area (nested input) and its global position in the input
+export interface SourceFeature {
+  feature: FeatureData;
+  area: AreaData | null;
+  featureIndex: number;
+}
+
+// Check if data is a simple array of features or nested structure
+// If any item has an 'area_list' field, it's a nested structure
+export function isNestedInput(data: Array<AreaData | FeatureData>): boolean {
+  return data.length === 0 || data.some(item => item && typeof item === 'object' && 'area_list' in item);
+}
+
+// Flatten both input shapes into one list of stations, validating required fields on the way
+export function collectSourceFeatures(data: unknown): SourceFeature[] {
+  if (!Array.isArray(data)) {
+    throw new ConversionError('Invalid input: Expected an array of feature data or area data');
+  }
+
+  const sources: SourceFeature[] = [];
+
+  if (!isNestedInput(data)) {
+    // Simple array structure: [{ name, polygon }, ...]
+    (data as FeatureData[]).forEach((feature, i) => {
+      checkRequiredFields(feature, `index ${i}`);
+      sources.push({ feature, area: null, featureIndex: i });
+    });
+    return sources;
+  }
+
+  // Nested structure: [{ area_list: [{ name, polygon }, ...] }, ...]
+  // The global feature index counts stations across all areas in input order
+  let globalFeatureIndex = 0;
+  (data as AreaData[]).forEach((area, areaIndex) => {
+    if (!area.area_list || !Array.isArray(area.area_list)) {
+      return;
+    }
+    area.area_list.forEach((feature, featureIndex) => {
+      checkRequiredFields(feature, `area[${areaIndex}].area_list[${featureIndex}]`);
+      sources.push({ feature, area, featureIndex: globalFeatureIndex + featureIndex });
+    });
+    globalFeatureIndex += area.area_list.length;
+  });
+
+  return sources;
+}
+
+// Stations of one input item when the input arrives item by item (streaming): an area with an
+// area_list, or a single station. itemIndex is the item's position in the input.
+export function collectItemSources(item: unknown, itemIndex: number, firstFeatureIndex: number): SourceFeature[] {
+  if (item && typeof item === 'object' && 'area_list' in item) {
+    const area = item as AreaData;
+    if (!Array.isArray(area.area_list)) {
+      return [];
+    }
+    return area.area_list.map((feature, featureIndex) => {
+      checkRequiredFields(feature, `area[${itemIndex}].area_list[${featureIndex}]`);
+      return { feature, area, featureIndex: firstFeatureIndex + featureIndex };
+    });
+  }
+
+  const feature = item as FeatureData;
+  checkRequiredFields(feature, `index ${itemIndex}`);
+  return [{ feature, area: null, featureIndex: firstFeatureIndex }];
+}
+
+function checkRequiredFields(feature: FeatureData, location: string) {
+  if (!feature || !feature.name) {
+    throw new ConversionError(`Feature at ${location}: Missing required 'name' field`);
+  }
+  if (!GEOMETRY_FIELDS.some(key => feature[key])) {
+    throw new ConversionError(`Feature at ${location}: Missing required 'polygon' field (or a 'line' / 'path' field)`);
+  }
+}
+
+// The property name of a parent area field: the prefix is added unless the field already carries
+// it, so id becomes area_id while area_name stays area_name
+export function prefixAreaField(key: string, areaPrefix: string): string {
+  return key.startsWith(areaPrefix) ? key : `${areaPrefix}${key}`;
+}
+
+// The area field a prefixed property came from, for converting back. prefixAreaField keeps fields
+// that already carry the prefix, so a property reads back under its own name (area_code stays
+// area_code); only the area id, which the station schema stores as id, loses the prefix.
+export function unprefixAreaField(property: string, areaPrefix: string): string {
+  return property === prefixAreaField('id', areaPrefix) ? 'id' : property;
+}
+
+// Build feature properties from the source feature and its parent area (if any)
+export function buildProperties(feature: FeatureData, area: AreaData | null, mapping: PropertyMapping = {}): GeoJSONFeature['properties'] {
+  const areaPrefix = mapping.areaPrefix ?? 'area_';
+  const source: { [key: string]: any } = {};
+
+  // Parent area fields go in first so feature fields win on collisions
+  if (area && mapping.includeAreaFields !== false) {
+    for (const key of Object.keys(area)) {
+      if (key === 'area_list') continue;
+      source[prefixAreaField(key, areaPrefix)] = area[key];
+    }
+  }
+
+  for (const key of Object.keys(feature)) {
+    // Coordinates and the geometry_type directive end up in the geometry, not the properties
+    if (GEOMETRY_FIELDS.indexOf(key) !== -1 || key === 'geometry_type') continue;
+    source[key] = feature[key];
+  }
+
+  const properties: GeoJSONFeature['properties'] = { name: feature.name };
+  for (const key of Object.keys(source)) {
+    if (key !== 'name') {
+      if (mapping.include && mapping.include.indexOf(key) === -1) continue;
+      if (mapping.exclude && mapping.exclude.indexOf(key) !== -1) continue;
+    }
+    const outputKey = mapping.rename && mapping.rename[key] ? mapping.rename[key] : key;
+    properties[outputKey] = source[key];
+  }
+
+  return properties;
+}
+
+// Read lat/lng from a point using any of the supported coordinate field names
+export function extractLatLng(point: any): { lat: any; lng: any } {
+  if (!point || typeof point !== 'object') {
+    throw new Error(`Invalid coordinate format: ${JSON.stringify(point)}`);
+  }
+
+  if (point.lat !== undefined && point.long !== undefined) {
+    // Format: { lat: -6.2428, long: 106.8628 }
+    return { lat: point.lat, lng: point.long };
+  } else if (point.lat !== undefined && point.lng !== undefined) {
+    // Format: { lat: -6.2428, lng: 106.8628 }
+    return { lat: point.lat, lng: point.lng };
+  } else if (point.latitude !== undefined && point.longitude !== undefined) {
+    // Format: { latitude: -6.2428, longitude: 106.8628 }
+    return { lat: point.latitude, lng: point.longitude };
+  } else if (point.lat !== undefined && point.lon !== undefined) {
+    // Format: { lat: -6.2428, lon: 106.8628 }
+    return { lat: point.lat, lng: point.lon };
+  }
+
+  throw new Error(`Invalid coordinate format: ${JSON.stringify(point)}`);
+}
+
+// Ensure the ring is closed (first and last points are the same)
+export function closeRing(coordinates: number[][]): number[][] {
+  if (coordinates.length > 0) {
+    const firstPoint = coordinates[0];
+    const lastPoint = coordinates[coordinates.length - 1];
+    // Check if both points are valid (not NaN) before comparing
+    const firstPointValid = !isNaN(firstPoint[0]) && !isNaN(firstPoint[1]);
+    const lastPointValid = !isNaN(lastPoint[0]) && !isNaN(lastPoint[1]);
+
+    if (firstPointValid && lastPointValid &&
+        (firstPoint[0] !== lastPoint[0] || firstPoint[1] !== lastPoint[1])) {
+      coordinates.push([...firstPoint]);
+    }
+  }
+  return coordinates;
+}
+
+// Action recorded on a warning about an invalid coordinate under the given policy
+function invalidCoordinateAction(policy: InvalidDataPolicy): WarningAction {
+  switch (policy) {
+    case 'drop_vertex':
+      return 'vertex_dropped';
+    case 'drop_feature':
+      return 'feature_dropped';
+    case 'fail':
+      return 'failed';
+    default:
+      return 'kept';
+  }
+}
+
+// Resolve a geometry_type value case-insensitively, e.g. "point" or "LINESTRING"
+function resolveGeometryType(value: any): GeometryType | null {
+  if (typeof value !== 'string') return null;
+  const lower = value.trim().toLowerCase();
+  const types: GeometryType[] = ['Point', 'LineString', 'Polygon', 'MultiPolygon'];
+  return types.filter(type => type.toLowerCase() === lower)[0] || null;
+}
+
+// Turn nested arrays of coordinate objects into a geometry with [lng, lat] positions (not yet
+// validated). A flat array is a single point, a path or a single ring depending on the requested
+// type; otherwise it is a list of rings (outer ring first, then holes) or a list of polygons.
+// Without a requested type, a flat array with one point becomes a Point.
+function pointArrayToGeometry(value: any[], requestedType: GeometryType | null): GeoJSONGeometry {
+  const toRing = (ring: any[]): number[][] => ring.map(point => {
+    const { lat, lng } = extractLatLng(point);
+    return [lng, lat];
+  });
+  const toRings = (rings: any): number[][][] => {
+    if (!Array.isArray(rings) || !rings.every(ring => Array.isArray(ring))) {
+      throw new Error('Coordinate arrays are nested inconsistently');
+    }
+    return rings.map(toRing);
+  };
+
+  if (!Array.isArray(value[0])) {
+    const positions = toRing(value);
+    if (requestedType === 'Point' || (!requestedType && positions.length === 1)) {
+      if (positions.length !== 1) {
+        throw new Error(`A Point needs exactly one coordinate, found ${positions.length}`);
+      }
+      return { type: 'Point', coordinates: positions[0] };
+    }
+    if (requestedType === 'LineString') {
+      return { type: 'LineString', coordinates: positions };
+    }
+    if (requestedType === 'MultiPolygon') {
+      return { type: 'MultiPolygon', coordinates: [[positions]] };
+    }
+    return { type: 'Polygon', coordinates: [positions] };
+  }
+
+  if (requestedType === 'Point' || requestedType === 'LineString') {
+    throw new Error(`A ${requestedType} needs a flat array of coordinates`);
+  }
+  if (!Array.isArray(value[0][0])) {
+    const rings = toRings(value);
+    return requestedType === 'MultiPolygon'
+      ? { type: 'MultiPolygon', coordinates: [rings] }
+      : { type: 'Polygon', coordinates: rings };
+  }
+  if (requestedType === 'Polygon') {
+    throw new Error('A Polygon needs an array of rings, found an array of polygons');
+  }
+  return { type: 'MultiPolygon', coordinates: value.map(toRings) };
+}
+
+// Parse a station's geometry field into a geometry whose positions still need validation.
+// The type comes from geometry_type when given, and otherwise from the field and its contents.
+// Parse failures are reported as warnings and return null.
+function parseGeometryField(source: SourceFeature, policy: InvalidDataPolicy, warnings: CoordinateWarning[]): GeoJSONGeometry | null {
+  const { feature, featureIndex } = source;
+  const warn = (issue: ValidationIssue, message: string) => {
+    warnings.push({
+      featureIndex,
+      featureName: feature.name,
+      coordinateIndex: -1,
+      coordinate: [0, 0],
+      issue,
+      message,
+      // An unparseable geometry can never be kept
+      action: policy === 'fail' ? 'failed' : 'feature_dropped'
+    });
+  };
+  const errorMessage = (error: unknown, fallback: string) => error instanceof Error ? error.message : fallback;
+
+  const field = GEOMETRY_FIELDS.filter(key => feature[key])[0];
+  let value: any = feature[field];
+
+  let requestedType: GeometryType | null = null;
+  if (feature.geometry_type !== undefined && feature.geometry_type !== null && feature.geometry_type !== '') {
+    requestedType = resolveGeometryType(feature.geometry_type);
+    if (!requestedType) {
+      warn('invalid_geometry', `Unsupported geometry_type "${feature.geometry_type}" (expected Point, LineString, Polygon or MultiPolygon)`);
+      return null;
+    }
+  } else if (field !== 'polygon') {
+    requestedType = 'LineString';
+  }
+
+  // Geometries that carry their own type (WKT, GeoJSON) must agree with the requested type
+  const checkType = (geometry: GeoJSONGeometry): GeoJSONGeometry | null => {
+    if (requestedType && geometry.type !== requestedType) {
+      warn('invalid_geometry', `${geometry.type} geometry in ${field} does not match the expected ${requestedType}`);
+      return null;
+    }
+    return geometry;
+  };
+
+  if (typeof value === 'string') {
+    const text = value.trim();
+
+    // WKT, e.g. POLYGON((106.86 -6.24, ...))
+    if (looksLikeWKT(text)) {
+      try {
+        return checkType(parseWKT(text));
+      } catch (parseError) {
+        warn('invalid_wkt', `Invalid WKT in ${field}: ${errorMessage(parseError, 'Unknown parsing error')}`);
+        return null;
+      }
+    }
+
+    // Stringified JSON: (nested) arrays of coordinate objects or a GeoJSON geometry
+    try {
+      value = JSON.parse(text);
+    } catch (parseError) {
+      warn('invalid_json', `Invalid JSON format in ${field}: ${errorMessage(parseError, 'Unknown parsing error')}`);
+      return null;
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return null;
+    }
+    try {
+      return pointArrayToGeometry(value, requestedType);
+    } catch (parseError) {
+      warn('invalid_geometry', `Invalid coordinates in ${field}: ${errorMessage(parseError, 'Unknown coordinate error')}`);
+      return null;
+    }
+  }
+
+  // Embedded GeoJSON geometry (or Feature) object
+  if (value && typeof value === 'object' && 'type' in value) {
+    try {
+      return checkType(parseGeoJSONGeometry(value));
+    } catch (parseError) {
+      warn('invalid_geometry', `Invalid GeoJSON geometry in ${field}: ${errorMessage(parseError, 'Unknown geometry error')}`);
+      return null;
+    }
+  }
+
+  warn('invalid_geometry', `Unsupported ${field} value: expected coordinates, WKT, JSON text or a GeoJSON geometry`);
+  return null;
+}
+
+// Validate one coordinate and convert it to a GeoJSON position [longitude, latitude].
+// Returns null when the policy drops invalid coordinates.
+function toPosition(
+  lat: any,
+  lng: any,
+  coordIndex: number,
+  source: SourceFeature,
+  policy: InvalidDataPolicy,
+  warnings: CoordinateWarning[]
+): number[] | null {
+  const latNum = toNumber(lat);
+  const lngNum = toNumber(lng);
+
+  // Validate coordinates (handles both data type and range validation)
+  const validation = validateCoordinate(lat, lng);
+  if (!validation.isValid) {
+    // If coordinates are invalid, use 0 as fallback for values that are not numbers
+    const fallback = [isNaN(lngNum) ? 0 : lngNum, isNaN(latNum) ? 0 : latNum];
+    warnings.push({
+      featureIndex: source.featureIndex,
+      featureName: source.feature.name,
+      coordinateIndex: coordIndex,
+      coordinate: [fallback[0], fallback[1]],
+      issue: validation.issue!,
+      message: validation.message!,
+      action: invalidCoordinateAction(policy)
+    });
+    return policy === 'drop_vertex' || policy === 'drop_feature' ? null : fallback;
+  }
+
+  return [lngNum, latNum]; // GeoJSON format: [longitude, latitude]
+}
+
+// Reproject the positions of a parsed geometry to WGS84 so that validation sees degrees.
+// Values that are not numbers are left for validation to report.
+function reprojectToWGS84(geometry: GeoJSONGeometry, sourceCrs: string): GeoJSONGeometry {
+  const transform = createTransform(sourceCrs, WGS84);
+  return mapPositions(geometry, position => {
+    const x = toNumber(position[0]);
+    const y = toNumber(position[1]);
+    if (!isFinite(x) || !isFinite(y)) {
+      return position;
+    }
+    return transform([x, y, ...position.slice(2)]);
+  });
+}
+
+// Validate every position of a parsed geometry and close its polygon rings. Returns null when
+// the policy dropped every position.
+function validateGeometry(
+  geometry: GeoJSONGeometry,
+  source: SourceFeature,
+  policy: InvalidDataPolicy,
+  warnings: CoordinateWarning[]
+): GeoJSONGeometry | null {
+  const dropped: { [index: number]: boolean } = {};
+  const mapped = mapPositions(geometry, (position, index) => {
+    const validated = toPosition(position[1], position[0], index, source, policy, warnings);
+    if (!validated) {
+      dropped[index] = true;
+      return position;
+    }
+    return validated;
+  });
+
+  const validated = filterPositions(mapped, (position, index) => !dropped[index]);
+  if (!validated) {
+    return null;
+  }
+
+  if (validated.type === 'Polygon') {
+    (validated.coordinates as number[][][]).forEach(closeRing);
+  } else if (validated.type === 'MultiPolygon') {
+    (validated.coordinates as number[][][][]).forEach(polygon => polygon.forEach(closeRing));
+  }
+
+  return validated;
+}
+
+// Look for swapped latitude and longitude in a parsed geometry (in degrees), and exchange them
+// when options.fixSwappedAxes is on. center is the middle of the dataset, if known.
+function checkSwappedAxes(
+  geometry: GeoJSONGeometry,
+  source: SourceFeature,
+  options: ConvertOptions,
+  center: Position | null,
+  warnings: CoordinateWarning[]
+): GeoJSONGeometry {
+  const reason = detectSwappedAxes(geometry, center);
+  if (!reason) {
+    return geometry;
+  }
+  const [x, y] = getPositions(geometry)[0];
+  warnings.push({
+    featureIndex: source.featureIndex,
+    featureName: source.feature.name,
+    coordinateIndex: -1,
+    coordinate: [toNumber(x), toNumber(y)],
+    issue: 'swapped_axes',
+    message: reason,
+    action: options.fixSwappedAxes ? 'fixed' : 'kept'
+  });
+  return options.fixSwappedAxes ? swapAxes(geometry) : geometry;
+}
+
+// Convert one station to a GeoJSON feature. Returns null when the station is skipped.
+// Vertex counts are added to simplification when options.simplify is on. center is the middle
+// of the dataset for swapped axes detection; without it only out-of-range coordinates are
+// checked for swapped axes.
+export function convertFeature(
+  source: SourceFeature,
+  options: ConvertOptions,
+  warnings: CoordinateWarning[],
+  simplification: SimplifyReport[] = [],
+  center: Position | null = null
+): GeoJSONFeature | null {
+  const parsed = parseGeometryField(source, options.invalidData || 'keep', warnings);
+  return parsed ? convertParsedFeature(source, parsed, options, warnings, simplification, center) : null;
+}
+
+// convertFeature for a station whose geometry field is parsed already
+function convertParsedFeature(
+  source: SourceFeature,
+  parsed: GeoJSONGeometry,
+  options: ConvertOptions,
+  warnings: CoordinateWarning[],
+  simplification: SimplifyReport[],
+  center: Position | null
+): GeoJSONFeature | null {
+  const { feature, area } = source;
+  const policy = options.invalidData || 'keep';
+
+  try {
+    const sourceCrs = options.sourceCrs || WGS84;
+    if (isGeographicCRS(sourceCrs)) {
+      parsed = checkSwappedAxes(parsed, source, options, center, warnings);
+    }
+
+    // Coordinate warnings, which the policy applies to, start here
+    const firstWarning = warnings.length;
+    const projected = resolveCRS(sourceCrs) !== WGS84
+      ? reprojectToWGS84(parsed, sourceCrs)
+      : parsed;
+    let geometry = validateGeometry(projected, source, policy, warnings);
+
+    const featureWarnings = warnings.slice(firstWarning);
+    if (policy === 'drop_feature' && featureWarnings.length > 0) {
+      return null;
+    }
+    if (!geometry) {
+      // Every vertex was dropped, so the feature goes too
+      featureWarnings.forEach(warning => { warning.action = 'feature_dropped'; });
+      return null;
+    }
+
+    if (options.rewind) {
+      geometry = rewindGeometry(geometry);
+    }
+
+    if (options.simplify && options.simplify.tolerance > 0) {
+      const verticesBefore = countVertices(geometry);
+      geometry = simplifyGeometry(geometry, options.simplify);
+      simplification.push({
+        featureIndex: source.featureIndex,
+        featureName: feature.name,
+        verticesBefore,
+        verticesAfter: countVertices(geometry)
+      });
+    }
+
+    // Ring-level problems (self-intersections, winding, degenerate rings) after coordinate checks
+    // These are reported only; the policy applies to invalid coordinates and polygons
+    checkTopology(geometry).forEach(problem => {
+      warnings.push({
+        featureIndex: source.featureIndex,
+        featureName: feature.name,
+        ...problem,
+        action: 'kept'
+      });
+    });
+
+    const properties = buildProperties(feature, area, options.propertyMapping);
+    if (options.includeMetrics) {
+      const metrics = computeMetrics(geometry);
+      if (metrics) {
+        properties.area_m2 = metrics.area_m2;
+        properties.perimeter_m = metrics.perimeter_m;
+        properties.centroid = metrics.centroid;
+        properties.bbox = metrics.bbox;
+      }
+    }
+
+    return {
+      type: 'Feature',
+      properties,
+      geometry
+    };
+  } catch (error) {
+    // Reported like an unparseable geometry, and other features are still converted
+    warnings.push({
+      featureIndex: source.featureIndex,
+      featureName: feature.name,
+      coordinateIndex: -1,
+      coordinate: [0, 0],
+      issue: 'invalid_geometry',
+      message: `Could not convert ${feature.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      action: policy === 'fail' ? 'failed' : 'feature_dropped'
+    });
+    return null;
+  }
+}
+
+// Convert a custom marker to a Point feature, warning about invalid coordinates. Returns null
+// when the policy drops the marker.
+export function convertMarker(marker: Marker, warnings: CoordinateWarning[], policy: InvalidDataPolicy = 'keep'): GeoJSONFeature | null {
+  const validation = validateCoordinate(marker.lat, marker.lng);
+  if (!validation.isValid) {
+    // A marker is a single vertex, so dropping the vertex drops the marker
+    const dropped = policy === 'drop_vertex' || policy === 'drop_feature';
+    warnings.push({
+      featureIndex: -1,
+      featureName: marker.name || 'Custom Marker',
+      coordinateIndex: 0,
+      coordinate: [marker.lng, marker.lat],
+      issue: validation.issue!,
+      message: `Custom marker: ${validation.message!}`,
+      action: dropped ? 'feature_dropped' : invalidCoordinateAction(policy)
+    });
+    if (dropped) {
+      return null;
+    }
+  }
+
+  return {
+    type: 'Feature',
+    properties: {
+      name: marker.name,
+    },
+    geometry: {
+      type: 'Point',
+      coordinates: [marker.lng, marker.lat]
+    }
+  };
+}
+
+// Reproject a converted feature for targetCrs output, including its centroid and bbox metrics
+function reprojectFeature(feature: GeoJSONFeature, transform: (position: Position) => Position, includeMetrics?: boolean): GeoJSONFeature {
+  const geometry = mapPositions(feature.geometry, transform);
+  const properties = { ...feature.properties };
+  if (includeMetrics && Array.isArray(properties.centroid)) {
+    properties.centroid = transform(properties.centroid);
+    properties.bbox = positionsBBox(getPositions(geometry));
+  }
+  return { ...feature, properties, geometry };
+}
+
+// Build the function that reprojects converted features to options.targetCrs, or null for WGS84 output
+export function createOutputProjection(options: ConvertOptions): ((feature: GeoJSONFeature) => GeoJSONFeature) | null {
+  const targetCrs = options.targetCrs ? resolveCRS(options.targetCrs)! : WGS84;
+  if (targetCrs === WGS84) {
+    return null;
+  }
+  const transform = createTransform(WGS84, targetCrs);
+  return feature => reprojectFeature(feature, transform, options.includeMetrics);
+}
+
+// Throws a 400 ConversionError for an unsupported sourceCrs or targetCrs
+export function checkCRSOptions(options: ConvertOptions) {
+  if (options.sourceCrs && !resolveCRS(options.sourceCrs)) {
+    throw new ConversionError(`Unsupported sourceCrs "${options.sourceCrs}"`);
+  }
+  if (options.targetCrs && !resolveCRS(options.targetCrs)) {
+    throw new ConversionError(`Unsupported targetCrs "${options.targetCrs}"`);
+  }
+}
+
+// Convert station data (simple or nested) to a GeoJSON FeatureCollection. Under the 'fail'
+// policy, throws a 422 ConversionError listing every warning instead.
+// Coordinates are read in options.sourceCrs; output other than WGS84 (options.targetCrs) carries
+// a "crs" member and is not RFC 7946 GeoJSON.
+export function convert(data: unknown, options: ConvertOptions = {}): ConvertResult {
+  checkCRSOptions(options);
+  const sources = collectSourceFeatures(data);
+  const warnings: CoordinateWarning[] = [];
+  const simplification: SimplifyReport[] = [];
+  let features: GeoJSONFeature[] = [];
+  const featureIndexes: number[] = [];
+  const datasetFeatures: DatasetFeature[] = [];
+
+  // Every geometry field is parsed first, as the middle of the dataset (for swapped axes
+  // detection) needs all of them. Parse warnings are added with their station to keep the order.
+  const parsed = sources.map(source => {
+    const parseWarnings: CoordinateWarning[] = [];
+    const geometry = parseGeometryField(source, options.invalidData || 'keep', parseWarnings);
+    return { geometry, warnings: parseWarnings };
+  });
+  const center = isGeographicCRS(options.sourceCrs || WGS84)
+    ? datasetCenter(parsed
+      .map(item => item.geometry)
+      .filter((geometry): geometry is GeoJSONGeometry => geometry !== null))
+    : null;
+
+  sources.forEach((source, i) => {
+    const { geometry, warnings: parseWarnings } = parsed[i];
+    warnings.push(...parseWarnings);
+    const feature = geometry && convertParsedFeature(source, geometry, options, warnings, simplification, center);
+    if (feature) {
+      features.push(feature);
+      featureIndexes.push(source.featureIndex);
+      datasetFeatures.push({ featureIndex: source.featureIndex, name: source.feature.name, id: source.feature.id, geometry: feature.geometry });
+    }
+  });
+
+  // Overlaps and duplicates between stations, reported only
+  if (options.analyzeDataset !== false) {
+    warnings.push(...analyzeDataset(datasetFeatures));
+  }
+
+  // Add custom markers if requested
+  if (options.includeMarkers && options.markers && options.markers.length > 0) {
+    for (const marker of options.markers) {
+      const feature = convertMarker(marker, warnings, options.invalidData);
+      if (feature) {
+        features.push(feature);
+        featureIndexes.push(-1);
+      }
+    }
+  }
+
+  const failures = warnings.filter(warning => warning.action === 'failed');
+  if (failures.length > 0) {
+    throw new ConversionError(`Invalid data: ${failures.length} invalid coordinate(s) or polygon(s) found`, 422, warnings);
+  }
+
+  const project = createOutputProjection(options);
+  if (project) {
+    features = features.map(project);
+  }
+
+  // RFC 7946 bbox member, left out for an empty collection
+  const bbox = featuresBBox(features);
+  const result: ConvertResult = {
+    geojson: {
+      type: 'FeatureCollection',
+      ...(project ? { crs: namedCRS(options.targetCrs!) } : {}),
+      ...(bbox ? { bbox } : {}),
+      features
+    },
+    featureIndexes,
+    warnings
+  };
+  if (options.simplify && options.simplify.tolerance > 0) {
+    result.simplification = simplification;
+  }
+  return result;
+}
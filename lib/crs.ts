@@ -0,0 +1,174 @@
+import type { Position } from './geometry';
+import type { NamedCRS } from './types';
+
+// The CRS of GeoJSON positions as RFC 7946 defines them: longitude, latitude in WGS84 degrees
+export const WGS84 = 'EPSG:4326';
+
+export interface CRSInfo {
+  code: string; // e.g. "EPSG:32748"
+  name: string;
+}
+
+interface CRSDefinition extends CRSInfo {
+  // Both work on [x, y] = [easting, northing] or [longitude, latitude]
+  toWGS84: (x: number, y: number) => [number, number];
+  fromWGS84: (lng: number, lat: number) => [number, number];
+}
+
+const DEGREES = 180 / Math.PI;
+const RADIANS = Math.PI / 180;
+
+// WGS84 ellipsoid
+const SEMI_MAJOR_AXIS = 6378137;
+const FLATTENING = 1 / 298.257223563;
+
+// Web Mercator is cut off where the projected map becomes square
+const MERCATOR_MAX_LATITUDE = 85.0511287798066;
+
+const webMercator: Pick<CRSDefinition, 'toWGS84' | 'fromWGS84'> = {
+  toWGS84: (x, y) => [
+    x / SEMI_MAJOR_AXIS * DEGREES,
+    (2 * Math.atan(Math.exp(y / SEMI_MAJOR_AXIS)) - Math.PI / 2) * DEGREES
+  ],
+  fromWGS84: (lng, lat) => {
+    const clamped = Math.max(-MERCATOR_MAX_LATITUDE, Math.min(MERCATOR_MAX_LATITUDE, lat));
+    return [
+      lng * RADIANS * SEMI_MAJOR_AXIS,
+      Math.log(Math.tan(Math.PI / 4 + clamped * RADIANS / 2)) * SEMI_MAJOR_AXIS
+    ];
+  }
+};
+
+// Transverse Mercator series coefficients (Krüger, 3rd order in n), accurate to well below a
+// millimetre within a UTM zone
+const N = FLATTENING / (2 - FLATTENING);
+const RECTIFYING_RADIUS = SEMI_MAJOR_AXIS / (1 + N) * (1 + N * N / 4 + Math.pow(N, 4) / 64);
+const ALPHA = [N / 2 - 2 * N * N / 3 + 5 * Math.pow(N, 3) / 16, 13 * N * N / 48 - 3 * Math.pow(N, 3) / 5, 61 * Math.pow(N, 3) / 240];
+const BETA = [N / 2 - 2 * N * N / 3 + 37 * Math.pow(N, 3) / 96, N * N / 48 + Math.pow(N, 3) / 15, 17 * Math.pow(N, 3) / 480];
+const DELTA = [2 * N - 2 * N * N / 3 - 2 * Math.pow(N, 3), 7 * N * N / 3 - 8 * Math.pow(N, 3) / 5, 56 * Math.pow(N, 3) / 15];
+const UTM_SCALE = 0.9996;
+const UTM_FALSE_EASTING = 500000;
+const UTM_FALSE_NORTHING_SOUTH = 10000000;
+
+function atanh(x: number): number {
+  return Math.log((1 + x) / (1 - x)) / 2;
+}
+
+function utm(zone: number, south: boolean): Pick<CRSDefinition, 'toWGS84' | 'fromWGS84'> {
+  const centralMeridian = (zone * 6 - 183) * RADIANS;
+  const falseNorthing = south ? UTM_FALSE_NORTHING_SOUTH : 0;
+  const k0A = UTM_SCALE * RECTIFYING_RADIUS;
+  const e = 2 * Math.sqrt(N) / (1 + N);
+
+  return {
+    toWGS84: (x, y) => {
+      const xi = (y - falseNorthing) / k0A;
+      const eta = (x - UTM_FALSE_EASTING) / k0A;
+      let xiPrime = xi;
+      let etaPrime = eta;
+      BETA.forEach((beta, j) => {
+        const k = 2 * (j + 1);
+        xiPrime -= beta * Math.sin(k * xi) * Math.cosh(k * eta);
+        etaPrime -= beta * Math.cos(k * xi) * Math.sinh(k * eta);
+      });
+      const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+      const lat = DELTA.reduce((phi, delta, j) => phi + delta * Math.sin(2 * (j + 1) * chi), chi);
+      const lng = centralMeridian + Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime));
+      return [lng * DEGREES, lat * DEGREES];
+    },
+    fromWGS84: (lng, lat) => {
+      const phi = lat * RADIANS;
+      const lambda = lng * RADIANS - centralMeridian;
+      const t = Math.sinh(atanh(Math.sin(phi)) - e * atanh(e * Math.sin(phi)));
+      const xiPrime = Math.atan2(t, Math.cos(lambda));
+      const etaPrime = atanh(Math.sin(lambda) / Math.sqrt(1 + t * t));
+      let x = etaPrime;
+      let y = xiPrime;
+      ALPHA.forEach((alpha, j) => {
+        const k = 2 * (j + 1);
+        x += alpha * Math.cos(k * xiPrime) * Math.sinh(k * etaPrime);
+        y += alpha * Math.sin(k * xiPrime) * Math.cosh(k * etaPrime);
+      });
+      return [UTM_FALSE_EASTING + k0A * x, falseNorthing + k0A * y];
+    }
+  };
+}
+
+const identity: Pick<CRSDefinition, 'toWGS84' | 'fromWGS84'> = {
+  toWGS84: (x, y) => [x, y],
+  fromWGS84: (lng, lat) => [lng, lat]
+};
+
+// UTM zones covering Indonesia
+const UTM_ZONES = [46, 47, 48, 49, 50, 51, 52, 53, 54];
+
+// DGN95 / UTM codes that exist in the EPSG registry (there is no land in 53N and 54N, or in 46S)
+const DGN95_UTM_NORTH: { [zone: number]: number } = { 46: 23866, 47: 23867, 48: 23868, 49: 23869, 50: 23870, 51: 23871, 52: 23872 };
+const DGN95_UTM_SOUTH: { [zone: number]: number } = { 47: 23877, 48: 23878, 49: 23879, 50: 23880, 51: 23881, 52: 23882, 53: 23883, 54: 23884 };
+
+// DGN95 (the Indonesian geodetic datum) uses the WGS84 ellipsoid, and EPSG transforms it to
+// WGS84 with zero shifts, so its coordinates are used as they are
+const DEFINITIONS: CRSDefinition[] = [
+  { code: WGS84, name: 'WGS 84', ...identity },
+  { code: 'EPSG:3857', name: 'WGS 84 / Pseudo-Mercator', ...webMercator },
+  { code: 'EPSG:4755', name: 'DGN95', ...identity },
+  ...UTM_ZONES.map(zone => ({ code: `EPSG:${32600 + zone}`, name: `WGS 84 / UTM zone ${zone}N`, ...utm(zone, false) })),
+  ...UTM_ZONES.map(zone => ({ code: `EPSG:${32700 + zone}`, name: `WGS 84 / UTM zone ${zone}S`, ...utm(zone, true) })),
+  ...UTM_ZONES.filter(zone => DGN95_UTM_NORTH[zone]).map(zone => ({
+    code: `EPSG:${DGN95_UTM_NORTH[zone]}`, name: `DGN95 / UTM zone ${zone}N`, ...utm(zone, false)
+  })),
+  ...UTM_ZONES.filter(zone => DGN95_UTM_SOUTH[zone]).map(zone => ({
+    code: `EPSG:${DGN95_UTM_SOUTH[zone]}`, name: `DGN95 / UTM zone ${zone}S`, ...utm(zone, true)
+  })),
+];
+
+// Systems whose coordinates are longitude and latitude in degrees
+const GEOGRAPHIC = [WGS84, 'EPSG:4755'];
+
+// Supported coordinate reference systems, for option lists
+export const SUPPORTED_CRS: CRSInfo[] = DEFINITIONS.map(({ code, name }) => ({ code, name }));
+
+// Resolve "EPSG:32748", "epsg:32748", 32748 or a "crs" member name such as
+// "urn:ogc:def:crs:EPSG::32748" to the canonical code, or null when unsupported
+export function resolveCRS(value: any): string | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const text = String(value).trim().toUpperCase();
+  if (text === 'URN:OGC:DEF:CRS:OGC:1.3:CRS84') return WGS84;
+  const urn = /^URN:OGC:DEF:CRS:EPSG:[\d.]*:(\d+)$/.exec(text);
+  const code = urn ? `EPSG:${urn[1]}` : /^\d+$/.test(text) ? `EPSG:${text}` : text;
+  return DEFINITIONS.some(definition => definition.code === code) ? code : null;
+}
+
+// Whether coordinates in this CRS are longitude and latitude, e.g. for checking swapped axes
+export function isGeographicCRS(code: string): boolean {
+  return GEOGRAPHIC.indexOf(resolveCRS(code) || '') !== -1;
+}
+
+function getDefinition(code: string): CRSDefinition {
+  const resolved = resolveCRS(code);
+  const definition = DEFINITIONS.filter(item => item.code === resolved)[0];
+  if (!definition) {
+    throw new Error(`Unsupported CRS "${code}"`);
+  }
+  return definition;
+}
+
+// Build a function that reprojects positions from one CRS to another. Extra ordinates (e.g.
+// altitude) are kept. Throws for unsupported CRS codes.
+export function createTransform(from: string, to: string): (position: Position) => Position {
+  const source = getDefinition(from);
+  const target = getDefinition(to);
+  if (source.code === target.code) {
+    return position => position;
+  }
+  return position => {
+    const [lng, lat] = source.toWGS84(position[0], position[1]);
+    return [...target.fromWGS84(lng, lat), ...position.slice(2)];
+  };
+}
+
+// The pre-RFC 7946 "crs" member naming the CRS of a FeatureCollection
+export function namedCRS(code: string): NamedCRS {
+  const [, number] = getDefinition(code).code.split(':');
+  return { type: 'name', properties: { name: `urn:ogc:def:crs:EPSG::${number}` } };
+}
@@ -0,0 +1,103 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ConversionError } from './converter';
+import { convertCSV, csvToFeatures, getCSVHeaders, guessCSVMapping, parseCSV } from './csv';
+import type { CSVMapping } from './types';
+
+const MAPPING: CSVMapping = { group: 'station', sequence: 'seq', lat: 'lat', lng: 'lng' };
+
+// Two stations of four vertices each, with B's rows out of order
+const CSV = [
+  'station,seq,lat,lng,address',
+  'A,1,-6.21,106.8,Jl. Sudirman',
+  'A,2,-6.21,106.81,Jl. Sudirman',
+  'A,3,-6.2,106.81,Jl. Sudirman',
+  'A,4,-6.2,106.8,Jl. Sudirman',
+  'B,3,-6.2,106.91,Jl. Thamrin',
+  'B,1,-6.21,106.9,Jl. Thamrin',
+  'B,4,-6.2,106.9,Jl. Thamrin',
+  'B,2,-6.21,106.91,Jl. Thamrin'
+].join('\n');
+
+describe('parseCSV', () => {
+  it('handles quoted cells, escaped quotes and CRLF line ends', () => {
+    assert.deepEqual(parseCSV('name,address\r\n"A","Jl. ""Sudirman"", 1"\r\n'), [['name', 'address'], ['A', 'Jl. "Sudirman", 1']]);
+  });
+
+  it('detects semicolon and tab delimiters', () => {
+    assert.deepEqual(parseCSV('a;b\n1;2'), [['a', 'b'], ['1', '2']]);
+    assert.deepEqual(parseCSV('a\tb\n1\t2'), [['a', 'b'], ['1', '2']]);
+  });
+});
+
+describe('guessCSVMapping', () => {
+  it('matches common header names regardless of case', () => {
+    assert.deepEqual(guessCSVMapping(getCSVHeaders('Station_ID,Name,Order,Latitude,Lon\n')), {
+      group: 'Name',
+      name: 'Name',
+      sequence: 'Order',
+      lat: 'Latitude',
+      lng: 'Lon'
+    });
+  });
+
+  it('leaves out fields without a matching header', () => {
+    assert.deepEqual(guessCSVMapping(['y', 'x']), { lat: 'y', lng: 'x' });
+  });
+});
+
+describe('csvToFeatures', () => {
+  it('groups rows into stations and sorts them by sequence', () => {
+    const { features, rows } = csvToFeatures(CSV, MAPPING);
+    assert.deepEqual(features.map(feature => [feature.name, feature.address]), [['A', 'Jl. Sudirman'], ['B', 'Jl. Thamrin']]);
+    assert.deepEqual(features[1].polygon, [
+      { lat: '-6.21', long: '106.9' },
+      { lat: '-6.21', long: '106.91' },
+      { lat: '-6.2', long: '106.91' },
+      { lat: '-6.2', long: '106.9' }
+    ]);
+    assert.deepEqual(rows, [[2, 3, 4, 5], [7, 9, 6, 8]]);
+  });
+
+  it('keeps file order without a sequence column', () => {
+    const { rows } = csvToFeatures(CSV, { group: 'station', lat: 'lat', lng: 'lng' });
+    assert.deepEqual(rows[1], [6, 7, 8, 9]);
+  });
+
+  it('rejects a mapping to a missing column', () => {
+    assert.throws(() => csvToFeatures(CSV, { ...MAPPING, lat: 'latitude' }), ConversionError);
+  });
+
+  it('rejects a row without a group value', () => {
+    assert.throws(() => csvToFeatures('station,lat,lng\n,-6.21,106.8', { group: 'station', lat: 'lat', lng: 'lng' }), /CSV row 2/);
+  });
+});
+
+describe('convertCSV', () => {
+  it('converts each group to a polygon', () => {
+    const { geojson, warnings } = convertCSV(CSV, MAPPING);
+    assert.deepEqual(warnings, []);
+    assert.deepEqual(geojson.features.map(feature => feature.properties), [
+      { name: 'A', station: 'A', address: 'Jl. Sudirman' },
+      { name: 'B', station: 'B', address: 'Jl. Thamrin' }
+    ]);
+    assert.equal(geojson.features[1].geometry.type, 'Polygon');
+  });
+
+  it('reports the row of an invalid coordinate', () => {
+    const { warnings } = convertCSV(CSV.replace('B,4,-6.2,', 'B,4,north,'), MAPPING);
+    const warning = warnings.filter(item => item.issue === 'invalid_latitude')[0];
+    assert.deepEqual([warning.featureIndex, warning.coordinateIndex, warning.row], [1, 3, 8]);
+  });
+
+  it('reports the rows of the warnings it fails with', () => {
+    try {
+      convertCSV(CSV.replace('A,2,-6.21,', 'A,2,95,'), MAPPING, { invalidData: 'fail' });
+      assert.fail('expected a ConversionError');
+    } catch (error) {
+      assert.ok(error instanceof ConversionError);
+      const warning = error.warnings!.filter(item => item.issue === 'invalid_latitude')[0];
+      assert.deepEqual([warning.action, warning.row], ['failed', 3]);
+    }
+  });
+});
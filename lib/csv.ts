@@ -0,0 +1,212 @@
+import { convert, ConversionError } from './converter';
+import type { ConvertOptions, ConvertResult, CoordinateWarning, CSVMapping, FeatureData, ValidationIssue } from './types';
+
+// Candidate header names used to pre-fill the column mapping
+const COLUMN_GUESSES: { [field in keyof CSVMapping]-?: string[] } = {
+  group: ['name', 'station', 'station_name', 'id', 'station_id'],
+  name: ['name', 'station', 'station_name'],
+  sequence: ['seq', 'sequence', 'order', 'index', 'vertex'],
+  lat: ['lat', 'latitude', 'y'],
+  lng: ['long', 'lng', 'lon', 'longitude', 'x'],
+};
+
+// Pick the delimiter that splits the header line into the most columns
+function detectDelimiter(text: string): string {
+  const headerLine = text.split(/\r?\n/, 1)[0] || '';
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of [',', ';', '\t']) {
+    const count = headerLine.split(delimiter).length;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+// Parse CSV text (RFC 4180 quoting) into rows of cells. Blank lines are returned as empty rows
+// so that row indexes keep matching line numbers.
+export function parseCSV(text: string, delimiter: string = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row.length === 1 && row[0] === '' ? [] : row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// Read the header row of CSV text
+export function getCSVHeaders(text: string): string[] {
+  const firstRow = parseCSV(text.split(/\r?\n/, 1)[0] || '');
+  return firstRow.length > 0 ? firstRow[0].map(header => header.trim()) : [];
+}
+
+// Suggest a column mapping from header names
+export function guessCSVMapping(headers: string[]): Partial<CSVMapping> {
+  const lowerHeaders = headers.map(header => header.toLowerCase());
+  const mapping: Partial<CSVMapping> = {};
+
+  (Object.keys(COLUMN_GUESSES) as Array<keyof CSVMapping>).forEach(field => {
+    for (const guess of COLUMN_GUESSES[field]) {
+      const index = lowerHeaders.indexOf(guess);
+      if (index !== -1) {
+        mapping[field] = headers[index];
+        break;
+      }
+    }
+  });
+
+  return mapping;
+}
+
+// Group CSV vertex rows into station features. rows[i][j] is the CSV row number (header = row 1)
+// of vertex j of feature i.
+export function csvToFeatures(text: string, mapping: CSVMapping): { features: FeatureData[]; rows: number[][] } {
+  const table = parseCSV(text);
+  if (table.length === 0) {
+    throw new ConversionError('Invalid input: CSV data is empty');
+  }
+
+  const headers = table[0].map(header => header.trim());
+  const columnIndex = (field: keyof CSVMapping, required: boolean) => {
+    const column = mapping[field];
+    if (!column) {
+      if (required) {
+        throw new ConversionError(`CSV mapping: Missing required '${field}' column`);
+      }
+      return -1;
+    }
+    const index = headers.indexOf(column);
+    if (index === -1) {
+      throw new ConversionError(`CSV mapping: Column "${column}" not found in header`);
+    }
+    return index;
+  };
+
+  const groupIndex = columnIndex('group', true);
+  const nameIndex = columnIndex('name', false);
+  const sequenceIndex = columnIndex('sequence', false);
+  const latIndex = columnIndex('lat', true);
+  const lngIndex = columnIndex('lng', true);
+  const vertexColumns = [sequenceIndex, latIndex, lngIndex];
+
+  const groups: { [key: string]: Array<{ cells: string[]; rowNumber: number }> } = {};
+  const groupOrder: string[] = [];
+
+  for (let i = 1; i < table.length; i++) {
+    const cells = table[i];
+    if (cells.every(cell => cell.trim() === '')) continue;
+
+    const rowNumber = i + 1;
+    const key = (cells[groupIndex] || '').trim();
+    if (!key) {
+      throw new ConversionError(`CSV row ${rowNumber}: Missing value in group column "${headers[groupIndex]}"`);
+    }
+    if (!groups[key]) {
+      groups[key] = [];
+      groupOrder.push(key);
+    }
+    groups[key].push({ cells, rowNumber });
+  }
+
+  const features: FeatureData[] = [];
+  const rows: number[][] = [];
+
+  for (const key of groupOrder) {
+    let vertices = groups[key];
+
+    if (sequenceIndex !== -1) {
+      // Stable sort by sequence; rows without a numeric sequence keep their order at the end
+      vertices = vertices
+        .map((vertex, order) => ({ vertex, order, sequence: parseFloat(vertex.cells[sequenceIndex]) }))
+        .sort((a, b) => {
+          const aMissing = isNaN(a.sequence);
+          const bMissing = isNaN(b.sequence);
+          if (aMissing !== bMissing) return aMissing ? 1 : -1;
+          if (!aMissing && a.sequence !== b.sequence) return a.sequence - b.sequence;
+          return a.order - b.order;
+        })
+        .map(entry => entry.vertex);
+    }
+
+    // Other columns of the first row become station fields
+    const first = vertices[0].cells;
+    const feature: FeatureData = { name: '', polygon: [] };
+    headers.forEach((header, index) => {
+      if (vertexColumns.indexOf(index) === -1 && header) {
+        feature[header] = first[index] !== undefined ? first[index].trim() : '';
+      }
+    });
+    feature.name = nameIndex !== -1 && first[nameIndex] ? first[nameIndex].trim() : key;
+    feature.polygon = vertices.map(vertex => ({ lat: vertex.cells[latIndex], long: vertex.cells[lngIndex] }));
+
+    features.push(feature);
+    rows.push(vertices.map(vertex => vertex.rowNumber));
+  }
+
+  return { features, rows };
+}
+
+// Issues found while reading a station's coordinates, before vertices are dropped and rings are
+// closed, rewound or simplified, so their coordinateIndex is the position of the vertex row
+const INPUT_COORDINATE_ISSUES: ValidationIssue[] = ['invalid_latitude', 'invalid_longitude', 'both_invalid'];
+
+// Convert CSV vertex rows to GeoJSON, attaching CSV row numbers to the warnings
+export function convertCSV(text: string, mapping: CSVMapping, options: ConvertOptions = {}): ConvertResult {
+  const { features, rows } = csvToFeatures(text, mapping);
+
+  const attachRows = (warnings: CoordinateWarning[]) => warnings.forEach(warning => {
+    if (warning.featureIndex === -1) return;
+    const featureRows = rows[warning.featureIndex];
+    // Other warnings are about the transformed geometry, whose vertices no longer line up with
+    // the rows, and point at the first row of the station
+    const row = INPUT_COORDINATE_ISSUES.indexOf(warning.issue) !== -1 ? featureRows[warning.coordinateIndex] : undefined;
+    warning.row = row !== undefined ? row : featureRows[0];
+  });
+
+  try {
+    const result = convert(features, options);
+    attachRows(result.warnings);
+    return result;
+  } catch (error) {
+    // The 'fail' policy reports its warnings through the error
+    if (error instanceof ConversionError && error.warnings) {
+      attachRows(error.warnings);
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,114 @@
+import type { Position } from './geometry';
+import type { GeoJSONGeometry } from './types';
+
+// A draggable vertex, or the midpoint of an edge where a vertex can be inserted. line counts the
+// geometry's lines and rings in document order; vertex is the vertex's index in it, or for a
+// midpoint the index of the vertex the edge starts at.
+export interface VertexHandle {
+  line: number;
+  vertex: number;
+  position: Position;
+}
+
+// A line, ring or point of a geometry. Rings are held without their closing position.
+interface EditLine {
+  positions: Position[];
+  closed: boolean;
+}
+
+function openRing(ring: Position[]): Position[] {
+  const first = ring[0];
+  const last = ring[ring.length - 1];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring.slice();
+}
+
+function toLines(geometry: GeoJSONGeometry): EditLine[] {
+  const rings = (polygon: Position[][]) => polygon.map(ring => ({ positions: openRing(ring), closed: true }));
+  switch (geometry.type) {
+    case 'Point':
+      return [{ positions: [geometry.coordinates as Position], closed: false }];
+    case 'LineString':
+      return [{ positions: (geometry.coordinates as Position[]).slice(), closed: false }];
+    case 'Polygon':
+      return rings(geometry.coordinates as Position[][]);
+    case 'MultiPolygon':
+      return (geometry.coordinates as Position[][][]).reduce<EditLine[]>((lines, polygon) => lines.concat(rings(polygon)), []);
+  }
+}
+
+// Rebuild a geometry of the same structure from its (edited) lines, closing the rings again
+function fromLines(geometry: GeoJSONGeometry, lines: EditLine[]): GeoJSONGeometry {
+  let next = 0;
+  const ring = () => {
+    const positions = lines[next++].positions;
+    return [...positions, positions[0]];
+  };
+  switch (geometry.type) {
+    case 'Point':
+      return { type: 'Point', coordinates: lines[0].positions[0] };
+    case 'LineString':
+      return { type: 'LineString', coordinates: lines[0].positions };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: (geometry.coordinates as Position[][]).map(ring) };
+    case 'MultiPolygon':
+      return { type: 'MultiPolygon', coordinates: (geometry.coordinates as Position[][][]).map(polygon => polygon.map(ring)) };
+  }
+}
+
+function editLine(geometry: GeoJSONGeometry, line: number, edit: (positions: Position[]) => Position[]): GeoJSONGeometry {
+  const lines = toLines(geometry);
+  lines[line] = { ...lines[line], positions: edit(lines[line].positions.slice()) };
+  return fromLines(geometry, lines);
+}
+
+// Every vertex of a geometry (the closing position of a ring is not a separate vertex)
+export function getVertexHandles(geometry: GeoJSONGeometry): VertexHandle[] {
+  const handles: VertexHandle[] = [];
+  toLines(geometry).forEach((line, lineIndex) => {
+    line.positions.forEach((position, vertex) => handles.push({ line: lineIndex, vertex, position }));
+  });
+  return handles;
+}
+
+// The midpoint of every edge, including the closing edge of a ring
+export function getMidpointHandles(geometry: GeoJSONGeometry): VertexHandle[] {
+  const handles: VertexHandle[] = [];
+  toLines(geometry).forEach((line, lineIndex) => {
+    const edges = line.closed ? line.positions.length : line.positions.length - 1;
+    for (let vertex = 0; vertex < edges; vertex++) {
+      const a = line.positions[vertex];
+      const b = line.positions[(vertex + 1) % line.positions.length];
+      handles.push({ line: lineIndex, vertex, position: [(a[0] + b[0]) / 2, (a[1] + b[1]) / 2] });
+    }
+  });
+  return handles;
+}
+
+export function moveVertex(geometry: GeoJSONGeometry, line: number, vertex: number, position: Position): GeoJSONGeometry {
+  return editLine(geometry, line, positions => {
+    positions[vertex] = [position[0], position[1], ...positions[vertex].slice(2)];
+    return positions;
+  });
+}
+
+// Insert a vertex after the given one
+export function insertVertex(geometry: GeoJSONGeometry, line: number, after: number, position: Position): GeoJSONGeometry {
+  return editLine(geometry, line, positions => {
+    positions.splice(after + 1, 0, [position[0], position[1]]);
+    return positions;
+  });
+}
+
+// Remove a vertex. Returns null when the line would become too short: a ring keeps at least 3
+// vertices, a line 2, and the vertex of a point cannot be removed.
+export function deleteVertex(geometry: GeoJSONGeometry, line: number, vertex: number): GeoJSONGeometry | null {
+  const target = toLines(geometry)[line];
+  const minimum = geometry.type === 'Point' ? 1 : target.closed ? 3 : 2;
+  if (target.positions.length <= minimum) {
+    return null;
+  }
+  return editLine(geometry, line, positions => {
+    positions.splice(vertex, 1);
+    return positions;
+  });
+}
@@ -0,0 +1,102 @@
+import type { GeoJSONGeometry, GeometryType } from './types';
+
+export type Position = number[];
+
+// Nesting depth of the coordinates array for each supported geometry type
+const COORDINATE_DEPTH: { [type in GeometryType]: number } = {
+  Point: 1,
+  LineString: 2,
+  Polygon: 3,
+  MultiPolygon: 4,
+};
+
+export function isSupportedGeometryType(type: any): type is GeometryType {
+  return typeof type === 'string' && COORDINATE_DEPTH.hasOwnProperty(type);
+}
+
+// True when the value is a position: an array of at least two numbers
+export function isPosition(value: any): value is Position {
+  return Array.isArray(value) && value.length >= 2 && value.every(item => typeof item === 'number');
+}
+
+function hasDepth(value: any, depth: number): boolean {
+  if (depth === 1) return isPosition(value);
+  return Array.isArray(value) && value.every(item => hasDepth(item, depth - 1));
+}
+
+// Validate a GeoJSON geometry object (or a Feature wrapping one). Throws with a description of
+// the problem so callers can turn it into a warning.
+export function parseGeoJSONGeometry(value: any): GeoJSONGeometry {
+  const geometry = value && value.type === 'Feature' ? value.geometry : value;
+
+  if (!geometry || typeof geometry !== 'object' || typeof geometry.type !== 'string') {
+    throw new Error('Expected a GeoJSON geometry object with a "type" member');
+  }
+  const type = geometry.type;
+  if (!isSupportedGeometryType(type)) {
+    throw new Error(`Unsupported geometry type "${type}" (expected Point, LineString, Polygon or MultiPolygon)`);
+  }
+  if (!hasDepth(geometry.coordinates, COORDINATE_DEPTH[type])) {
+    throw new Error(`Invalid coordinates for ${type} geometry`);
+  }
+
+  return { type, coordinates: geometry.coordinates };
+}
+
+// Map every position of a geometry, keeping its structure. The index counts positions in
+// document order across all rings and parts.
+export function mapPositions(geometry: GeoJSONGeometry, mapper: (position: Position, index: number) => Position): GeoJSONGeometry {
+  let index = 0;
+  const walk = (value: any, depth: number): any => {
+    if (depth === 1) return mapper(value, index++);
+    return value.map((item: any) => walk(item, depth - 1));
+  };
+  return { type: geometry.type, coordinates: walk(geometry.coordinates, COORDINATE_DEPTH[geometry.type]) };
+}
+
+// All rings of a Polygon or MultiPolygon geometry, as a list of polygons (outer ring first)
+export function getPolygons(geometry: GeoJSONGeometry): Position[][][] {
+  if (geometry.type === 'Polygon') return [geometry.coordinates as Position[][]];
+  if (geometry.type === 'MultiPolygon') return geometry.coordinates as Position[][][];
+  return [];
+}
+
+// Remove the positions for which keep() returns false, then any lines, rings and polygons left
+// empty. A polygon whose outer ring is emptied is removed with its holes. Returns null when
+// nothing remains.
+export function filterPositions(geometry: GeoJSONGeometry, keep: (position: Position, index: number) => boolean): GeoJSONGeometry | null {
+  let index = 0;
+  const filterList = (positions: Position[]) => positions.filter(position => keep(position, index++));
+  const filterPolygon = (rings: Position[][]) => {
+    const filtered = rings.map(filterList);
+    return filtered[0] && filtered[0].length > 0 ? filtered.filter(ring => ring.length > 0) : null;
+  };
+  const nonEmpty = (polygons: Array<Position[][] | null>) => polygons.filter((polygon): polygon is Position[][] => polygon !== null);
+
+  switch (geometry.type) {
+    case 'Point':
+      return keep(geometry.coordinates as Position, 0) ? geometry : null;
+    case 'LineString': {
+      const line = filterList(geometry.coordinates as Position[]);
+      return line.length > 0 ? { type: 'LineString', coordinates: line } : null;
+    }
+    case 'Polygon': {
+      const polygon = filterPolygon(geometry.coordinates as Position[][]);
+      return polygon ? { type: 'Polygon', coordinates: polygon } : null;
+    }
+    case 'MultiPolygon': {
+      const polygons = nonEmpty((geometry.coordinates as Position[][][]).map(filterPolygon));
+      return polygons.length > 0 ? { type: 'MultiPolygon', coordinates: polygons } : null;
+    }
+  }
+}
+
+// Every position of a geometry as a flat list, in document order
+export function getPositions(geometry: GeoJSONGeometry): Position[] {
+  const positions: Position[] = [];
+  mapPositions(geometry, position => {
+    positions.push(position);
+    return position;
+  });
+  return positions;
+}
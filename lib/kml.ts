@@ -0,0 +1,126 @@
+import type { GeoJSONFeature, GeoJSONResponse } from './types';
+
+export interface KMLOptions {
+  documentName?: string;
+  groupByArea?: boolean; // One Folder per properties.area_name
+}
+
+export const KML_MIME_TYPE = 'application/vnd.google-earth.kml+xml';
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function formatValue(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// KML coordinates are "lng,lat" tuples separated by whitespace, same axis order as GeoJSON
+function formatCoordinates(positions: number[][]): string {
+  return positions.map(position => `${position[0]},${position[1]}`).join(' ');
+}
+
+function polygonToKML(rings: number[][][], indent: string): string {
+  const [outer, ...holes] = rings;
+  const lines = [
+    `${indent}<Polygon>`,
+    `${indent}  <outerBoundaryIs><LinearRing><coordinates>${formatCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>`,
+    ...holes.map(hole =>
+      `${indent}  <innerBoundaryIs><LinearRing><coordinates>${formatCoordinates(hole)}</coordinates></LinearRing></innerBoundaryIs>`
+    ),
+    `${indent}</Polygon>`
+  ];
+  return lines.join('\n');
+}
+
+function geometryToKML(geometry: GeoJSONFeature['geometry'], indent: string): string {
+  if (geometry.type === 'Point') {
+    const [lng, lat] = geometry.coordinates as number[];
+    return `${indent}<Point><coordinates>${lng},${lat}</coordinates></Point>`;
+  }
+  if (geometry.type === 'LineString') {
+    return `${indent}<LineString><coordinates>${formatCoordinates(geometry.coordinates as number[][])}</coordinates></LineString>`;
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return [
+      `${indent}<MultiGeometry>`,
+      ...(geometry.coordinates as number[][][][]).map(polygon => polygonToKML(polygon, `${indent}  `)),
+      `${indent}</MultiGeometry>`
+    ].join('\n');
+  }
+  return polygonToKML(geometry.coordinates as number[][][], indent);
+}
+
+function placemarkToKML(feature: GeoJSONFeature, indent: string): string {
+  const { name, ...otherProperties } = feature.properties;
+  const lines = [`${indent}<Placemark>`, `${indent}  <name>${escapeXml(formatValue(name))}</name>`];
+
+  const keys = Object.keys(otherProperties);
+  if (keys.length > 0) {
+    lines.push(`${indent}  <ExtendedData>`);
+    for (const key of keys) {
+      lines.push(`${indent}    <Data name="${escapeXml(key)}"><value>${escapeXml(formatValue(otherProperties[key]))}</value></Data>`);
+    }
+    lines.push(`${indent}  </ExtendedData>`);
+  }
+
+  lines.push(geometryToKML(feature.geometry, `${indent}  `));
+  lines.push(`${indent}</Placemark>`);
+  return lines.join('\n');
+}
+
+// Convert a FeatureCollection to a KML document. Each feature becomes a Placemark named after
+// properties.name, with the remaining properties as ExtendedData. MultiPolygons become MultiGeometry.
+export function toKML(geojson: GeoJSONResponse, options: KMLOptions = {}): string {
+  const { documentName = 'Stations', groupByArea = false } = options;
+  const body: string[] = [];
+
+  if (groupByArea) {
+    // Features without an area_name (e.g. custom markers) stay at the document level
+    const folders: { [areaName: string]: GeoJSONFeature[] } = {};
+    const folderOrder: string[] = [];
+    const ungrouped: GeoJSONFeature[] = [];
+
+    for (const feature of geojson.features) {
+      const areaName = feature.properties.area_name;
+      if (areaName === undefined || areaName === null || areaName === '') {
+        ungrouped.push(feature);
+        continue;
+      }
+      const key = String(areaName);
+      if (!folders[key]) {
+        folders[key] = [];
+        folderOrder.push(key);
+      }
+      folders[key].push(feature);
+    }
+
+    for (const areaName of folderOrder) {
+      body.push('    <Folder>');
+      body.push(`      <name>${escapeXml(areaName)}</name>`);
+      folders[areaName].forEach(feature => body.push(placemarkToKML(feature, '      ')));
+      body.push('    </Folder>');
+    }
+    ungrouped.forEach(feature => body.push(placemarkToKML(feature, '    ')));
+  } else {
+    geojson.features.forEach(feature => body.push(placemarkToKML(feature, '    ')));
+  }
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(documentName)}</name>`,
+    ...body,
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
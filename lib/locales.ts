@@ -6,6 +6,35 @@ export const locales = {
     description: 'Convert station data with polygon coordinates to GeoJSON format. Perfect for mapping applications and GIS tools.',
     inputData: 'Input Data',
     loadExample: 'Load Example',
+    rewindRings: 'Rewind polygon rings (RFC 7946 right-hand rule)',
+    includeMetrics: 'Add area, perimeter, centroid and bbox to properties',
+    fixSwappedAxes: 'Fix swapped latitude and longitude',
+    applyFix: 'Apply fix',
+    summaryFeatures: '{count} feature(s), {polygons} polygon(s)',
+    summaryTotals: 'Total area: {area} · Total perimeter: {perimeter}',
+    summaryBBox: 'Bounding box: [{bbox}]',
+    summaryVertices: 'Vertices: {before} → {after} after simplification',
+    simplifyOff: 'Simplify: off',
+    simplifyTolerance: 'Simplify: {tolerance} m',
+    simplifyAlgorithm: 'Simplification algorithm',
+    algorithmDouglasPeucker: 'Douglas-Peucker',
+    algorithmVisvalingam: 'Visvalingam',
+    preserveTopology: 'Preserve topology',
+    testCoordinate: 'Test a coordinate',
+    testCoordinatePlaceholder: 'lat, lng (e.g. -6.2428, 106.8628)',
+    testCoordinateDistance: 'Nearest within (m)',
+    testCoordinateButton: 'Test',
+    lookupInside: 'Inside: {names}',
+    lookupNearest: 'Nearest: {name}, {distance} m away',
+    lookupNone: 'No station contains this point or lies within {distance} m',
+    lookupInvalid: 'Invalid coordinate: {message}',
+    sourceCrs: 'Coordinate system',
+    sourceCrsHint: 'Projected coordinates: put the easting in the longitude field and the northing in the latitude field. They are converted to WGS84 before validation.',
+    invalidDataPolicy: 'Invalid data:',
+    policyKeep: 'Keep (replace with 0)',
+    policyDropVertex: 'Drop vertex',
+    policyDropFeature: 'Drop feature',
+    policyFail: 'Fail',
     includeCustomMarker: 'Include custom marker',
     customMarkers: 'Custom Markers',
     addMarker: '+ Add Marker',
@@ -19,9 +48,52 @@ export const locales = {
     converting: 'Converting...',
     geojsonOutput: 'GeoJSON Output',
     mapPreview: 'Map Preview',
-    showMap: 'Show Map',
+    editMap: 'Edit on map',
+    doneEditing: 'Done editing',
+    drawPolygon: 'Draw polygon',
+    finishPolygon: 'Finish polygon',
+    cancelDrawing: 'Cancel',
+    deleteFeature: 'Delete station',
+    undo: 'Undo',
+    redo: 'Redo',
+    editHint: 'Click a station to select it. Drag a vertex to move it, click a midpoint to add one, right-click a vertex to remove it.',
+    drawHint: 'Click the map to add vertices, then finish the polygon (at least 3 vertices).',
+    editNoWriteBack: 'Edits change the output only: they are not written back into CSV or schema-mapped input.',
+    newStationName: 'New station {number}',
+    basemap: 'Basemap',
+    basemapDefault: 'Default',
+    basemapXYZ: 'XYZ tiles',
+    basemapWMS: 'WMS service',
+    basemapNone: 'None (coordinate grid)',
+    basemapXYZPlaceholder: 'https://tiles.example.com/{z}/{x}/{y}.png',
+    basemapWMSPlaceholder: 'https://maps.example.com/wms',
+    basemapLayersPlaceholder: 'WMS layers',
+    basemapIncomplete: 'Enter an http(s) URL: with {z}, {x} and {y} for XYZ tiles, or with layers for WMS. The coordinate grid is shown until then.',
+    colorBy: 'Color by',
+    colorByNone: 'Nothing (one color)',
+    styleModeCategories: 'Categories',
+    styleModeRange: 'Range',
+    labelBy: 'Labels',
+    labelByNone: 'None',
+    exportStyle: 'Include colors in the download (simplestyle)',
+    legendNoValue: 'No value',
+    legendMore: '+{count} more',
+    featureTable: 'Features',
+    featureTableCount: '{shown} of {total} features',
+    featureTableSearch: 'Search features...',
+    featureTableFilterAll: 'All',
+    featureTableNoMatches: 'No features match the search and filters.',
+    columnVertices: 'Vertices',
+    columnArea: 'Area',
+    columnWarnings: 'Warnings',
+    downloadFilteredOnly: 'Download only the features shown in the table',
     copy: 'Copy',
     download: 'Download',
+    downloadFormat: 'Download format',
+    formatGeoJSON: 'GeoJSON',
+    formatKML: 'KML',
+    formatShapefile: 'Shapefile (.zip)',
+    kmlFolderPerArea: 'One KML folder per area',
     copiedToClipboard: 'Copied to clipboard!',
     error: 'Error',
     howToUse: 'How to use:',
@@ -39,6 +111,9 @@ export const locales = {
     polygonFormatSupport: 'Polygon Format Support:',
     polygonFormat1: '• Stringified JSON: "polygon": "[{\\"lat\\":-6.2428,\\"long\\":106.8628}]"',
     polygonFormat2: '• Real JSON Array: "polygon": [{"lat":-6.2428,"long":106.8628}]',
+    polygonFormat3: '• WKT: "polygon": "POLYGON((106.8628 -6.2428, ...))"',
+    polygonFormat4: '• GeoJSON Geometry: "polygon": {"type":"Polygon","coordinates":[[[106.8628,-6.2428], ...]]}',
+    polygonFormat5: '• Point / Line: one coordinate, a "line" or "path" field, or "geometry_type": "LineString"',
     dataStructureSupport: 'Data Structure Support:',
     dataStructure1: '• Simple Array: [{"name": "Feature", "polygon": [...]}]',
     dataStructure2: '• Nested Structure: [{"area_list": [{"name": "Feature", "polygon": [...]}]}]',
@@ -46,6 +121,32 @@ export const locales = {
     requiredFieldsNote: '⚠️ Every object with a polygon field MUST have a name field',
     placeholderInput: 'Paste your JSON data here...',
     placeholderOutput: 'GeoJSON output will appear here...',
+    placeholderCsvInput: 'Paste your CSV data here (one row per vertex, with a header row)...',
+    inputFormatJson: 'JSON',
+    inputFormatCsv: 'CSV',
+    csvColumnMapping: 'CSV Column Mapping',
+    csvNoHeader: 'Paste CSV data with a header row to choose columns.',
+    csvGroupColumn: 'Group by (name or id)',
+    csvNameColumn: 'Name',
+    csvSequenceColumn: 'Sequence',
+    csvLatColumn: 'Latitude',
+    csvLngColumn: 'Longitude',
+    csvSelectColumn: 'Select column...',
+    csvNone: '(none)',
+    csvMappingIncomplete: 'CSV mapping: Please choose the group, latitude and longitude columns',
+    schemaMapping: 'Custom JSON shape',
+    schemaMappingHint: 'Paths such as $.data.stations[*] or geofence.points. With parent groups, the station list path starts at each group.',
+    schemaFeaturesPath: 'Station list',
+    schemaNamePath: 'Name',
+    schemaPolygonPath: 'Coordinates',
+    schemaLatPath: 'Latitude key',
+    schemaLngPath: 'Longitude key',
+    schemaGroupPath: 'Parent groups',
+    schemaMappingIncomplete: 'Schema mapping: Please fill in the station list, name and coordinates paths',
+    schemaPreview: 'Preview',
+    schemaPreviewFound: 'Found {count} stations',
+    schemaPreviewGroups: 'Found {count} stations in {groups} groups',
+    schemaPreviewInvalidJson: 'Enter valid JSON to preview the mapping.',
   placeholderLatitude: 'e.g., -6.2428',
   placeholderLongitude: 'e.g., 106.8628',
   placeholderMarkerName: 'e.g., Custom Location',
@@ -53,8 +154,10 @@ export const locales = {
   validationWarnings: 'Validation Warnings',
   noWarnings: 'No coordinate validation warnings found.',
   warningSummary: 'Found {count} coordinate validation warning(s):',
+  warningLocateHint: 'Click a warning to show it on the map.',
   warningFeature: 'Feature: {name}',
   warningCoordinate: 'Coordinate {index}: {coordinate}',
+  warningRow: 'CSV row {row}: {coordinate}',
   warningMessage: 'Issue: {message}',
   warningCustomMarker: 'Custom Marker',
   validationWarningsFound: '{count} validation warning{plural} found',
@@ -63,6 +166,26 @@ export const locales = {
   warningInvalidLatitude: 'Invalid Latitude',
   warningInvalidLongitude: 'Invalid Longitude',
   warningInvalidJson: 'Invalid JSON',
+  warningInvalidWkt: 'Invalid WKT',
+  warningInvalidGeometry: 'Invalid Geometry',
+  warningSelfIntersection: 'Self-Intersection',
+  warningTooFewPoints: 'Too Few Points',
+  warningWrongWinding: 'Wrong Winding',
+  warningDuplicateVertex: 'Duplicate Vertex',
+  warningZeroArea: 'Zero Area',
+  warningHoleOutsideShell: 'Hole Outside Shell',
+  warningSwappedAxes: 'Swapped Lat/Long',
+  warningOverlap: 'Overlap',
+  warningContained: 'Contained',
+  warningDuplicateName: 'Duplicate Name',
+  warningDuplicateId: 'Duplicate ID',
+  warningDuplicateGeometry: 'Duplicate Geometry',
+  warningAction: 'Action: {action}',
+  actionKept: 'kept (invalid values replaced by 0)',
+  actionVertexDropped: 'vertex dropped',
+  actionFeatureDropped: 'feature dropped',
+  actionFailed: 'conversion failed',
+  actionFixed: 'fixed',
     pleaseEnterJsonData: 'Please enter JSON data',
     failedToConvertData: 'Failed to convert data',
     invalidInput: 'Invalid input: Expected an array of area data',
@@ -73,6 +196,35 @@ export const locales = {
     description: 'Konversi data stasiun dengan koordinat poligon ke format GeoJSON. Sempurna untuk aplikasi pemetaan dan alat GIS.',
     inputData: 'Data Input',
     loadExample: 'Muat Contoh',
+    rewindRings: 'Putar ulang ring polygon (aturan tangan kanan RFC 7946)',
+    includeMetrics: 'Tambahkan luas, keliling, centroid dan bbox ke properti',
+    fixSwappedAxes: 'Perbaiki lintang dan bujur yang tertukar',
+    applyFix: 'Terapkan perbaikan',
+    summaryFeatures: '{count} fitur, {polygons} polygon',
+    summaryTotals: 'Total luas: {area} · Total keliling: {perimeter}',
+    summaryBBox: 'Kotak pembatas: [{bbox}]',
+    summaryVertices: 'Titik: {before} → {after} setelah penyederhanaan',
+    simplifyOff: 'Penyederhanaan: mati',
+    simplifyTolerance: 'Penyederhanaan: {tolerance} m',
+    simplifyAlgorithm: 'Algoritma penyederhanaan',
+    algorithmDouglasPeucker: 'Douglas-Peucker',
+    algorithmVisvalingam: 'Visvalingam',
+    preserveTopology: 'Pertahankan topologi',
+    testCoordinate: 'Uji koordinat',
+    testCoordinatePlaceholder: 'lat, lng (mis. -6.2428, 106.8628)',
+    testCoordinateDistance: 'Terdekat dalam (m)',
+    testCoordinateButton: 'Uji',
+    lookupInside: 'Di dalam: {names}',
+    lookupNearest: 'Terdekat: {name}, berjarak {distance} m',
+    lookupNone: 'Tidak ada stasiun yang memuat titik ini atau berada dalam {distance} m',
+    lookupInvalid: 'Koordinat tidak valid: {message}',
+    sourceCrs: 'Sistem koordinat',
+    sourceCrsHint: 'Koordinat terproyeksi: isi easting pada kolom longitude dan northing pada kolom latitude. Koordinat dikonversi ke WGS84 sebelum validasi.',
+    invalidDataPolicy: 'Data tidak valid:',
+    policyKeep: 'Pertahankan (ganti dengan 0)',
+    policyDropVertex: 'Hapus titik',
+    policyDropFeature: 'Hapus fitur',
+    policyFail: 'Gagalkan',
     includeCustomMarker: 'Sertakan penanda kustom',
     customMarkers: 'Penanda Kustom',
     addMarker: '+ Tambah Penanda',
@@ -86,9 +238,52 @@ export const locales = {
     converting: 'Mengkonversi...',
     geojsonOutput: 'Output GeoJSON',
     mapPreview: 'Pratinjau Peta',
-    showMap: 'Tampilkan Peta',
+    editMap: 'Edit di peta',
+    doneEditing: 'Selesai mengedit',
+    drawPolygon: 'Gambar poligon',
+    finishPolygon: 'Selesaikan poligon',
+    cancelDrawing: 'Batal',
+    deleteFeature: 'Hapus stasiun',
+    undo: 'Urungkan',
+    redo: 'Ulangi',
+    editHint: 'Klik stasiun untuk memilihnya. Seret titik sudut untuk memindahkannya, klik titik tengah untuk menambah titik, klik kanan titik sudut untuk menghapusnya.',
+    drawHint: 'Klik peta untuk menambah titik sudut, lalu selesaikan poligon (minimal 3 titik).',
+    editNoWriteBack: 'Perubahan hanya memengaruhi output: tidak ditulis kembali ke input CSV atau input dengan pemetaan skema.',
+    newStationName: 'Stasiun baru {number}',
+    basemap: 'Peta dasar',
+    basemapDefault: 'Bawaan',
+    basemapXYZ: 'Ubin XYZ',
+    basemapWMS: 'Layanan WMS',
+    basemapNone: 'Tidak ada (grid koordinat)',
+    basemapXYZPlaceholder: 'https://tiles.example.com/{z}/{x}/{y}.png',
+    basemapWMSPlaceholder: 'https://maps.example.com/wms',
+    basemapLayersPlaceholder: 'Layer WMS',
+    basemapIncomplete: 'Masukkan URL http(s): dengan {z}, {x} dan {y} untuk ubin XYZ, atau dengan layer untuk WMS. Grid koordinat ditampilkan sampai saat itu.',
+    colorBy: 'Warnai menurut',
+    colorByNone: 'Tidak ada (satu warna)',
+    styleModeCategories: 'Kategori',
+    styleModeRange: 'Rentang',
+    labelBy: 'Label',
+    labelByNone: 'Tidak ada',
+    exportStyle: 'Sertakan warna dalam unduhan (simplestyle)',
+    legendNoValue: 'Tanpa nilai',
+    legendMore: '+{count} lainnya',
+    featureTable: 'Fitur',
+    featureTableCount: '{shown} dari {total} fitur',
+    featureTableSearch: 'Cari fitur...',
+    featureTableFilterAll: 'Semua',
+    featureTableNoMatches: 'Tidak ada fitur yang cocok dengan pencarian dan filter.',
+    columnVertices: 'Titik Sudut',
+    columnArea: 'Luas',
+    columnWarnings: 'Peringatan',
+    downloadFilteredOnly: 'Unduh hanya fitur yang ditampilkan di tabel',
     copy: 'Salin',
     download: 'Unduh',
+    downloadFormat: 'Format unduhan',
+    formatGeoJSON: 'GeoJSON',
+    formatKML: 'KML',
+    formatShapefile: 'Shapefile (.zip)',
+    kmlFolderPerArea: 'Satu folder KML per area',
     copiedToClipboard: 'Disalin ke clipboard!',
     error: 'Kesalahan',
     howToUse: 'Cara menggunakan:',
@@ -106,6 +301,9 @@ export const locales = {
     polygonFormatSupport: 'Dukungan Format Polygon:',
     polygonFormat1: '• JSON String: "polygon": "[{\\"lat\\":-6.2428,\\"long\\":106.8628}]"',
     polygonFormat2: '• Array JSON Asli: "polygon": [{"lat":-6.2428,"long":106.8628}]',
+    polygonFormat3: '• WKT: "polygon": "POLYGON((106.8628 -6.2428, ...))"',
+    polygonFormat4: '• Geometri GeoJSON: "polygon": {"type":"Polygon","coordinates":[[[106.8628,-6.2428], ...]]}',
+    polygonFormat5: '• Titik / Garis: satu koordinat, field "line" atau "path", atau "geometry_type": "LineString"',
     dataStructureSupport: 'Dukungan Struktur Data:',
     dataStructure1: '• Array Sederhana: [{"name": "Feature", "polygon": [...]}]',
     dataStructure2: '• Struktur Bertingkat: [{"area_list": [{"name": "Feature", "polygon": [...]}]}]',
@@ -113,6 +311,32 @@ export const locales = {
     requiredFieldsNote: '⚠️ Setiap objek dengan field polygon WAJIB memiliki field name',
     placeholderInput: 'Tempel data JSON Anda di sini...',
     placeholderOutput: 'Output GeoJSON akan muncul di sini...',
+    placeholderCsvInput: 'Tempel data CSV Anda di sini (satu baris per titik, dengan baris header)...',
+    inputFormatJson: 'JSON',
+    inputFormatCsv: 'CSV',
+    csvColumnMapping: 'Pemetaan Kolom CSV',
+    csvNoHeader: 'Tempel data CSV dengan baris header untuk memilih kolom.',
+    csvGroupColumn: 'Kelompokkan per (nama atau id)',
+    csvNameColumn: 'Nama',
+    csvSequenceColumn: 'Urutan',
+    csvLatColumn: 'Lintang',
+    csvLngColumn: 'Bujur',
+    csvSelectColumn: 'Pilih kolom...',
+    csvNone: '(tidak ada)',
+    csvMappingIncomplete: 'Pemetaan CSV: Silakan pilih kolom kelompok, lintang, dan bujur',
+    schemaMapping: 'Bentuk JSON khusus',
+    schemaMappingHint: 'Path seperti $.data.stations[*] atau geofence.points. Dengan kelompok induk, path daftar stasiun dimulai dari setiap kelompok.',
+    schemaFeaturesPath: 'Daftar stasiun',
+    schemaNamePath: 'Nama',
+    schemaPolygonPath: 'Koordinat',
+    schemaLatPath: 'Kunci lintang',
+    schemaLngPath: 'Kunci bujur',
+    schemaGroupPath: 'Kelompok induk',
+    schemaMappingIncomplete: 'Pemetaan skema: Silakan isi path daftar stasiun, nama, dan koordinat',
+    schemaPreview: 'Pratinjau',
+    schemaPreviewFound: 'Ditemukan {count} stasiun',
+    schemaPreviewGroups: 'Ditemukan {count} stasiun dalam {groups} kelompok',
+    schemaPreviewInvalidJson: 'Masukkan JSON yang valid untuk melihat pratinjau pemetaan.',
   placeholderLatitude: 'contoh: -6.2428',
   placeholderLongitude: 'contoh: 106.8628',
   placeholderMarkerName: 'contoh: Lokasi Kustom',
@@ -120,8 +344,10 @@ export const locales = {
   validationWarnings: 'Peringatan Validasi',
   noWarnings: 'Tidak ada peringatan validasi koordinat.',
   warningSummary: 'Ditemukan {count} peringatan validasi koordinat:',
+  warningLocateHint: 'Klik peringatan untuk menampilkannya di peta.',
   warningFeature: 'Fitur: {name}',
   warningCoordinate: 'Koordinat {index}: {coordinate}',
+  warningRow: 'Baris CSV {row}: {coordinate}',
   warningMessage: 'Masalah: {message}',
   warningCustomMarker: 'Penanda Kustom',
   validationWarningsFound: '{count} peringatan validasi ditemukan',
@@ -130,6 +356,26 @@ export const locales = {
   warningInvalidLatitude: 'Lintang Tidak Valid',
   warningInvalidLongitude: 'Bujur Tidak Valid',
   warningInvalidJson: 'JSON Tidak Valid',
+  warningInvalidWkt: 'WKT Tidak Valid',
+  warningInvalidGeometry: 'Geometri Tidak Valid',
+  warningSelfIntersection: 'Berpotongan Sendiri',
+  warningTooFewPoints: 'Titik Terlalu Sedikit',
+  warningWrongWinding: 'Arah Ring Salah',
+  warningDuplicateVertex: 'Titik Duplikat',
+  warningZeroArea: 'Luas Nol',
+  warningHoleOutsideShell: 'Lubang di Luar Batas',
+  warningSwappedAxes: 'Lintang/Bujur Tertukar',
+  warningOverlap: 'Tumpang Tindih',
+  warningContained: 'Berada di Dalam',
+  warningDuplicateName: 'Nama Duplikat',
+  warningDuplicateId: 'ID Duplikat',
+  warningDuplicateGeometry: 'Geometri Duplikat',
+  warningAction: 'Tindakan: {action}',
+  actionKept: 'dipertahankan (nilai tidak valid diganti 0)',
+  actionVertexDropped: 'titik dihapus',
+  actionFeatureDropped: 'fitur dihapus',
+  actionFailed: 'konversi gagal',
+  actionFixed: 'diperbaiki',
     pleaseEnterJsonData: 'Silakan masukkan data JSON',
     failedToConvertData: 'Gagal mengkonversi data',
     invalidInput: 'Input tidak valid: Diharapkan array data area',
@@ -0,0 +1,173 @@
+import { ConversionError, extractLatLng } from './converter';
+import { getPolygons, Position } from './geometry';
+import { featuresBBox, localProjection, METRES_PER_DEGREE, segmentDistance } from './metrics';
+import { pointInRing } from './topology';
+import { toNumber, validateCoordinate } from './validation';
+import type { BBox, GeoJSONFeature, GeoJSONGeometry, LookupMatch, LookupResult } from './types';
+
+// Children per node of the spatial index
+const NODE_SIZE = 16;
+
+// Node of a packed R-tree. Leaves hold one feature, inner nodes up to NODE_SIZE children.
+interface IndexNode {
+  bbox: BBox;
+  children: IndexNode[];
+  featureIndex: number; // -1 for inner nodes
+}
+
+export interface SpatialIndex {
+  // Indexes of the features whose bounding box intersects the given one, in ascending order
+  search(bbox: BBox): number[];
+  // Features containing the point, or else the nearest one within maxDistance metres
+  lookup(point: Position, maxDistance?: number): LookupMatch[];
+}
+
+function mergeBBox(a: BBox, b: BBox): BBox {
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+function bboxesIntersect(a: BBox, b: BBox): boolean {
+  return a[0] <= b[2] && b[0] <= a[2] && a[1] <= b[3] && b[1] <= a[3];
+}
+
+// One level of Sort-Tile-Recursive packing: sort by x into vertical slices, then by y within
+// each slice, and group every NODE_SIZE nodes under a parent
+function packLevel(nodes: IndexNode[]): IndexNode[] {
+  const parentCount = Math.ceil(nodes.length / NODE_SIZE);
+  const sliceSize = Math.ceil(Math.sqrt(parentCount)) * NODE_SIZE;
+  const centerX = (node: IndexNode) => node.bbox[0] + node.bbox[2];
+  const centerY = (node: IndexNode) => node.bbox[1] + node.bbox[3];
+
+  const sorted = nodes.slice().sort((a, b) => centerX(a) - centerX(b));
+  const parents: IndexNode[] = [];
+  for (let i = 0; i < sorted.length; i += sliceSize) {
+    const slice = sorted.slice(i, i + sliceSize).sort((a, b) => centerY(a) - centerY(b));
+    for (let j = 0; j < slice.length; j += NODE_SIZE) {
+      const children = slice.slice(j, j + NODE_SIZE);
+      parents.push({
+        bbox: children.map(child => child.bbox).reduce(mergeBBox),
+        children,
+        featureIndex: -1
+      });
+    }
+  }
+  return parents;
+}
+
+// Distance in metres from a point to a geometry, 0 when a polygon contains the point
+function geometryDistance(point: Position, geometry: GeoJSONGeometry): number {
+  const contained = getPolygons(geometry).some(rings =>
+    pointInRing(point, rings[0]) && !rings.slice(1).some(hole => pointInRing(point, hole))
+  );
+  if (contained) return 0;
+
+  const project = localProjection(point[1]);
+  const p = project(point);
+  let min = Infinity;
+  const visit = (positions: Position[]) => {
+    if (positions.length === 1) {
+      min = Math.min(min, segmentDistance(p, project(positions[0]), project(positions[0])));
+    }
+    for (let i = 1; i < positions.length; i++) {
+      min = Math.min(min, segmentDistance(p, project(positions[i - 1]), project(positions[i])));
+    }
+  };
+
+  if (geometry.type === 'Point') {
+    visit([geometry.coordinates as Position]);
+  } else if (geometry.type === 'LineString') {
+    visit(geometry.coordinates as Position[]);
+  } else {
+    getPolygons(geometry).forEach(rings => rings.forEach(visit));
+  }
+  return min;
+}
+
+// Geometry types a point can be looked up in
+const INDEXED_TYPES = ['Point', 'LineString', 'Polygon', 'MultiPolygon'];
+
+// Build a spatial index (a packed R-tree over the feature bounding boxes) for point lookups.
+// Features must be in WGS84. Features without a geometry are left out; other geometry types
+// than INDEXED_TYPES throw a ConversionError.
+export function createSpatialIndex(features: GeoJSONFeature[]): SpatialIndex {
+  let level: IndexNode[] = [];
+  features.forEach((feature, featureIndex) => {
+    if (!feature.geometry) return;
+    if (INDEXED_TYPES.indexOf(feature.geometry.type) === -1) {
+      throw new ConversionError(`Feature ${featureIndex}: Unsupported geometry type ${feature.geometry.type} (expected ${INDEXED_TYPES.join(', ')})`);
+    }
+    const bbox = featuresBBox([feature]);
+    if (bbox) {
+      level.push({ bbox, children: [], featureIndex });
+    }
+  });
+  while (level.length > 1) {
+    level = packLevel(level);
+  }
+  const root = level.length > 0 ? level[0] : null;
+
+  const search = (bbox: BBox): number[] => {
+    const found: number[] = [];
+    const stack = root ? [root] : [];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!bboxesIntersect(node.bbox, bbox)) continue;
+      if (node.featureIndex !== -1) {
+        found.push(node.featureIndex);
+      } else {
+        stack.push(...node.children);
+      }
+    }
+    return found.sort((a, b) => a - b);
+  };
+
+  return {
+    search,
+    lookup(point, maxDistance = 0) {
+      // Search box grown by maxDistance, in degrees
+      const dLat = maxDistance / METRES_PER_DEGREE;
+      const dLng = dLat / Math.max(Math.cos(point[1] * Math.PI / 180), 1e-6);
+      const candidates = search([point[0] - dLng, point[1] - dLat, point[0] + dLng, point[1] + dLat]);
+
+      const matches: LookupMatch[] = candidates.map(featureIndex => ({
+        featureIndex,
+        properties: features[featureIndex].properties,
+        distance_m: Math.round(geometryDistance(point, features[featureIndex].geometry) * 100) / 100
+      }));
+
+      const containing = matches.filter(match => match.distance_m === 0);
+      if (containing.length > 0 || maxDistance <= 0) {
+        return containing;
+      }
+      const nearest = matches
+        .filter(match => match.distance_m <= maxDistance)
+        .sort((a, b) => a.distance_m - b.distance_m)[0];
+      return nearest ? [nearest] : [];
+    }
+  };
+}
+
+// Read a lookup point given as { lat, lng } (any of the converter's field names) or as a
+// [lng, lat] array. Throws when it is not a valid WGS84 coordinate.
+export function parseLookupPoint(value: any): Position {
+  const { lat, lng } = Array.isArray(value) ? { lat: value[1], lng: value[0] } : extractLatLng(value);
+  const validation = validateCoordinate(lat, lng);
+  if (!validation.isValid) {
+    throw new Error(validation.message!);
+  }
+  return [toNumber(lng), toNumber(lat)];
+}
+
+// Look up many points at once. Invalid points get an error instead of matches.
+export function lookupPoints(index: SpatialIndex, points: any[], maxDistance = 0): LookupResult[] {
+  return points.map(value => {
+    let point: Position;
+    try {
+      point = parseLookupPoint(value);
+    } catch (error) {
+      const coordinate: [number, number] = Array.isArray(value) ? [value[0], value[1]] : [0, 0];
+      return { coordinate, matches: [], error: (error as Error).message };
+    }
+    return { coordinate: [point[0], point[1]], matches: index.lookup(point, maxDistance) };
+  });
+}
@@ -0,0 +1,199 @@
+import { getPolygons, getPositions, Position } from './geometry';
+import type { BBox, GeoJSONFeature, GeoJSONGeometry } from './types';
+
+export interface GeometryMetrics {
+  area_m2: number;
+  perimeter_m: number; // Outer rings and holes
+  centroid: [number, number];
+  bbox: BBox;
+}
+
+// The properties computeMetrics adds to a feature
+export const METRIC_PROPERTIES: Array<keyof GeometryMetrics> = ['area_m2', 'perimeter_m', 'centroid', 'bbox'];
+
+export interface MetricsSummary {
+  featureCount: number;
+  polygonCount: number;
+  totalArea: number; // m²
+  totalPerimeter: number; // m
+  bbox: BBox | null;
+}
+
+// Mean Earth radius (IUGG) in metres
+const EARTH_RADIUS = 6371008.8;
+
+const toRadians = (degrees: number) => degrees * Math.PI / 180;
+
+const round = (value: number, decimals: number) => {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+};
+
+// Area of a ring on the sphere in m², positive for counter-clockwise rings
+// (Chamberlain & Duquette, "Some Algorithms for Polygons on a Sphere")
+function ringArea(ring: Position[]): number {
+  let total = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    total += toRadians(ring[i][0] - ring[j][0]) * (2 + Math.sin(toRadians(ring[j][1])) + Math.sin(toRadians(ring[i][1])));
+  }
+  return total * EARTH_RADIUS * EARTH_RADIUS / 2;
+}
+
+// Metres per degree of latitude on the mean Earth radius
+export const METRES_PER_DEGREE = EARTH_RADIUS * Math.PI / 180;
+
+export type Projection = (position: Position) => [number, number];
+
+// Local equirectangular projection to metres around the given latitude. Accurate enough for
+// distances within a station or a city.
+export function localProjection(latitude: number): Projection {
+  const metresPerDegreeLng = METRES_PER_DEGREE * Math.cos(toRadians(latitude));
+  return position => [position[0] * metresPerDegreeLng, position[1] * METRES_PER_DEGREE];
+}
+
+// Distance from p to the segment a-b, in projected units
+export function segmentDistance(p: [number, number], a: [number, number], b: [number, number]): number {
+  const dx = b[0] - a[0];
+  const dy = b[1] - a[1];
+  const lengthSquared = dx * dx + dy * dy;
+  let t = lengthSquared === 0 ? 0 : ((p[0] - a[0]) * dx + (p[1] - a[1]) * dy) / lengthSquared;
+  t = Math.max(0, Math.min(1, t));
+  const x = a[0] + t * dx - p[0];
+  const y = a[1] + t * dy - p[1];
+  return Math.sqrt(x * x + y * y);
+}
+
+// Great-circle distance between two positions in metres (haversine formula)
+export function distance(a: Position, b: Position): number {
+  const dLat = toRadians(b[1] - a[1]);
+  const dLng = toRadians(b[0] - a[0]);
+  const h = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(a[1])) * Math.cos(toRadians(b[1])) * Math.sin(dLng / 2) * Math.sin(dLng / 2);
+  return 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(h), Math.sqrt(1 - h));
+}
+
+function lineLength(positions: Position[]): number {
+  let length = 0;
+  for (let i = 1; i < positions.length; i++) {
+    length += distance(positions[i - 1], positions[i]);
+  }
+  return length;
+}
+
+// [minLng, minLat, maxLng, maxLat] of the given positions, or null when there are none
+export function positionsBBox(positions: Position[]): BBox | null {
+  if (positions.length === 0) return null;
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  positions.forEach(([lng, lat]) => {
+    bbox[0] = Math.min(bbox[0], lng);
+    bbox[1] = Math.min(bbox[1], lat);
+    bbox[2] = Math.max(bbox[2], lng);
+    bbox[3] = Math.max(bbox[3], lat);
+  });
+  return bbox;
+}
+
+// Area-weighted centroid of the polygons, in planar lng/lat. Falls back to the mean of the outer
+// ring vertices for polygons without area.
+function polygonsCentroid(polygons: Position[][][]): [number, number] {
+  // Work relative to the first vertex to avoid losing precision at large coordinates
+  const origin = polygons[0] && polygons[0][0] && polygons[0][0][0] ? polygons[0][0][0] : [0, 0];
+  let weight = 0;
+  let x = 0;
+  let y = 0;
+
+  polygons.forEach(rings => rings.forEach((ring, ringIndex) => {
+    let area = 0;
+    let cx = 0;
+    let cy = 0;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xj, yj] = [ring[j][0] - origin[0], ring[j][1] - origin[1]];
+      const [xi, yi] = [ring[i][0] - origin[0], ring[i][1] - origin[1]];
+      const cross = xj * yi - xi * yj;
+      area += cross;
+      cx += (xj + xi) * cross;
+      cy += (yj + yi) * cross;
+    }
+    if (area === 0) return;
+    area /= 2;
+    // Holes take weight away whatever their orientation
+    const ringWeight = ringIndex === 0 ? Math.abs(area) : -Math.abs(area);
+    x += ringWeight * cx / (6 * area);
+    y += ringWeight * cy / (6 * area);
+    weight += ringWeight;
+  }));
+
+  if (weight !== 0) {
+    return [origin[0] + x / weight, origin[1] + y / weight];
+  }
+
+  const vertices = polygons.reduce<Position[]>((all, rings) => all.concat(rings[0] ? rings[0].slice(0, -1) : []), []);
+  const sum = vertices.reduce((total, position) => [total[0] + position[0], total[1] + position[1]], [0, 0]);
+  return vertices.length > 0 ? [sum[0] / vertices.length, sum[1] / vertices.length] : [0, 0];
+}
+
+// Geodesic area and perimeter, centroid and bbox of a Polygon or MultiPolygon.
+// Returns null for other geometry types.
+export function computeMetrics(geometry: GeoJSONGeometry): GeometryMetrics | null {
+  const polygons = getPolygons(geometry);
+  const bbox = positionsBBox(getPositions(geometry));
+  if (polygons.length === 0 || !bbox) {
+    return null;
+  }
+
+  let area = 0;
+  let perimeter = 0;
+  polygons.forEach(rings => rings.forEach((ring, ringIndex) => {
+    const ringAreaAbs = Math.abs(ringArea(ring));
+    area += ringIndex === 0 ? ringAreaAbs : -ringAreaAbs;
+    perimeter += lineLength(ring);
+  }));
+
+  const centroid = polygonsCentroid(polygons);
+  return {
+    area_m2: round(Math.max(area, 0), 2),
+    perimeter_m: round(perimeter, 2),
+    centroid: [round(centroid[0], 8), round(centroid[1], 8)],
+    bbox
+  };
+}
+
+// RFC 7946 bbox of a list of features, or null when there are no positions. Extended one
+// feature at a time, without collecting every position of a large collection.
+export function featuresBBox(features: GeoJSONFeature[]): BBox | null {
+  let bbox: BBox | null = null;
+  for (const feature of features) {
+    const featureBBox = positionsBBox(getPositions(feature.geometry));
+    if (!featureBBox) continue;
+    bbox = bbox
+      ? [Math.min(bbox[0], featureBBox[0]), Math.min(bbox[1], featureBBox[1]), Math.max(bbox[2], featureBBox[2]), Math.max(bbox[3], featureBBox[3])]
+      : featureBBox;
+  }
+  return bbox;
+}
+
+// Totals over all (multi)polygons of a FeatureCollection, for display
+export function summarizeMetrics(features: GeoJSONFeature[]): MetricsSummary {
+  const summary: MetricsSummary = { featureCount: features.length, polygonCount: 0, totalArea: 0, totalPerimeter: 0, bbox: featuresBBox(features) };
+  features.forEach(feature => {
+    const metrics = computeMetrics(feature.geometry);
+    if (metrics) {
+      summary.polygonCount++;
+      summary.totalArea += metrics.area_m2;
+      summary.totalPerimeter += metrics.perimeter_m;
+    }
+  });
+  return summary;
+}
+
+// Human-readable area: m² below one hectare, then ha, then km²
+export function formatArea(m2: number): string {
+  if (m2 >= 1e6) return `${round(m2 / 1e6, 3)} km²`;
+  if (m2 >= 1e4) return `${round(m2 / 1e4, 2)} ha`;
+  return `${round(m2, 1)} m²`;
+}
+
+// Human-readable length: m below one kilometre, then km
+export function formatLength(m: number): string {
+  return m >= 1000 ? `${round(m / 1000, 3)} km` : `${round(m, 1)} m`;
+}
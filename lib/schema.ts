@@ -0,0 +1,166 @@
+import { ConversionError } from './converter';
+import type { AreaData, FeatureData, SchemaMapping } from './types';
+
+// One step of a path: an object key, an array index, or null for every element
+type PathStep = string | number | null;
+
+// How a schema mapping resolves against some data, for the preview in the UI
+export interface SchemaPreview {
+  featureCount: number;
+  groupCount?: number; // Only with a group path
+  samples: FeatureData[]; // The first stations, as the converter will see them
+  error?: string; // Set when the mapping does not resolve
+}
+
+// Parse "$.data.stations[*]", "data['station list'][0]" or "geofence.points" into steps
+export function parsePath(path: string): PathStep[] {
+  const text = String(path).trim().replace(/^\$/, '');
+  const pattern = /\.?([^.[\]'"\s]+)|\[(\d+|\*|'[^']*'|"[^"]*")\]/g;
+  const steps: PathStep[] = [];
+  let end = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    if (match.index !== end) break;
+    end = pattern.lastIndex;
+    const [, key, bracket] = match;
+    if (key !== undefined) {
+      steps.push(key === '*' ? null : key);
+    } else if (bracket === '*') {
+      steps.push(null);
+    } else if (/^\d+$/.test(bracket)) {
+      steps.push(parseInt(bracket, 10));
+    } else {
+      steps.push(bracket.slice(1, -1));
+    }
+  }
+
+  if (end !== text.length) {
+    throw new ConversionError(`Schema mapping: Invalid path "${path}"`);
+  }
+  return steps;
+}
+
+// Every value the steps lead to. A missing key leads nowhere rather than failing.
+function resolvePath(root: any, steps: PathStep[]): any[] {
+  let values = [root];
+  steps.forEach(step => {
+    const next: any[] = [];
+    values.forEach(value => {
+      if (value === null || typeof value !== 'object') return;
+      if (step === null) {
+        const keys = Object.keys(value);
+        keys.forEach(key => next.push(value[key]));
+      } else if (value[step] !== undefined) {
+        next.push(value[step]);
+      }
+    });
+    values = next;
+  });
+  return values;
+}
+
+// The list a path points to: the matches of a path ending in a wildcard, or else the array
+// at the path
+function resolveList(root: any, path: string, field: string): any[] {
+  const steps = parsePath(path);
+  const values = resolvePath(root, steps);
+  if (steps.length > 0 && steps[steps.length - 1] === null) {
+    return values;
+  }
+  if (values.length !== 1 || !Array.isArray(values[0])) {
+    throw new ConversionError(`Schema mapping: "${field}" path "${path}" does not point to a list`);
+  }
+  return values[0];
+}
+
+// Copy of an object without the top-level field a path starts with
+function withoutField(value: { [key: string]: any }, steps: PathStep[]): { [key: string]: any } {
+  const copy = { ...value };
+  if (typeof steps[0] === 'string') {
+    delete copy[steps[0] as string];
+  }
+  return copy;
+}
+
+// Reshape JSON of any shape into the converter's input: a simple station array, or an area
+// array when a group path is set. The field holding the coordinates is left out of the other
+// station fields (and the station list out of the group fields), which become properties as
+// usual. Throws a ConversionError when a path is invalid or does not resolve.
+export function applySchemaMapping(data: unknown, mapping: SchemaMapping): FeatureData[] | AreaData[] {
+  if (!mapping || typeof mapping.features !== 'string' || typeof mapping.name !== 'string' || typeof mapping.polygon !== 'string') {
+    throw new ConversionError('Schema mapping: Expected "features", "name" and "polygon" paths');
+  }
+  if (!mapping.lat !== !mapping.lng) {
+    throw new ConversionError('Schema mapping: "lat" and "lng" paths go together');
+  }
+
+  const featureSteps = parsePath(mapping.features);
+  const nameSteps = parsePath(mapping.name);
+  const polygonSteps = parsePath(mapping.polygon);
+  const latSteps = mapping.lat ? parsePath(mapping.lat) : null;
+  const lngSteps = mapping.lng ? parsePath(mapping.lng) : null;
+
+  // Coordinate objects at any nesting depth become { lat, lng }. Strings (WKT, stringified
+  // JSON) and GeoJSON geometries are left as they are.
+  const mapPoints = (value: any): any => {
+    if (Array.isArray(value)) return value.map(mapPoints);
+    if (!value || typeof value !== 'object' || 'coordinates' in value) return value;
+    return { lat: resolvePath(value, latSteps!)[0], lng: resolvePath(value, lngSteps!)[0] };
+  };
+
+  let featureIndex = 0;
+  const toFeature = (station: any): FeatureData => {
+    const location = `index ${featureIndex++}`;
+    if (!station || typeof station !== 'object' || Array.isArray(station)) {
+      throw new ConversionError(`Schema mapping: Station at ${location} is not an object`);
+    }
+    const [name] = resolvePath(station, nameSteps);
+    if (name === undefined || name === null || name === '') {
+      throw new ConversionError(`Schema mapping: Station at ${location} has no name at "${mapping.name}"`);
+    }
+    const [polygon] = resolvePath(station, polygonSteps);
+    if (polygon === undefined || polygon === null) {
+      throw new ConversionError(`Schema mapping: Station at ${location} has no coordinates at "${mapping.polygon}"`);
+    }
+    return {
+      ...withoutField(station, polygonSteps),
+      name,
+      polygon: latSteps ? mapPoints(polygon) : polygon
+    };
+  };
+
+  if (!mapping.group) {
+    return resolveList(data, mapping.features, 'features').map(toFeature);
+  }
+
+  return resolveList(data, mapping.group, 'group').map(group => {
+    if (!group || typeof group !== 'object' || Array.isArray(group)) {
+      throw new ConversionError(`Schema mapping: Group at "${mapping.group}" is not an object`);
+    }
+    return {
+      ...withoutField(group, featureSteps),
+      area_list: resolveList(group, mapping.features, 'features').map(toFeature)
+    };
+  });
+}
+
+// Resolve a mapping for the preview: how many stations and groups it finds, and the first few
+// stations. Errors are returned rather than thrown.
+export function previewSchemaMapping(data: unknown, mapping: SchemaMapping, sampleSize = 3): SchemaPreview {
+  try {
+    const mapped = applySchemaMapping(data, mapping);
+    if (!mapping.group) {
+      return { featureCount: mapped.length, samples: (mapped as FeatureData[]).slice(0, sampleSize) };
+    }
+    const areas = mapped as AreaData[];
+    const samples: FeatureData[] = [];
+    areas.forEach(area => area.area_list.forEach(station => {
+      if (samples.length < sampleSize) samples.push(station);
+    }));
+    const featureCount = areas.reduce((count, area) => count + area.area_list.length, 0);
+    return { featureCount, groupCount: areas.length, samples };
+  } catch (error) {
+    return { featureCount: 0, samples: [], error: (error as Error).message };
+  }
+}
@@ -0,0 +1,304 @@
+import { getPolygons } from './geometry';
+import { ringSignedArea } from './topology';
+import type { BBox, GeoJSONFeature, GeoJSONResponse } from './types';
+import { createZip, ZipEntry } from './zip';
+
+export interface ShapefileOptions {
+  name?: string; // Base file name for the layers inside the zip
+}
+
+export const SHAPEFILE_MIME_TYPE = 'application/zip';
+
+// Shapefile shape type codes
+const SHAPE_NULL = 0;
+const SHAPE_POINT = 1;
+const SHAPE_POLYLINE = 3;
+const SHAPE_POLYGON = 5;
+
+const DBF_FIELD_NAME_LENGTH = 10;
+const DBF_MAX_CHARACTER_LENGTH = 254;
+const DBF_NUMERIC_LENGTH = 19;
+const DBF_NUMERIC_DECIMALS = 8;
+
+// ESRI WKT for WGS84, the CRS of all converted output
+const WGS84_PRJ = 'GEOGCS["GCS_WGS_1984",DATUM["D_WGS_1984",SPHEROID["WGS_1984",6378137.0,298.257223563]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+interface DBFField {
+  name: string; // Truncated, unique DBF field name
+  property: string; // Original property name
+  type: 'C' | 'N' | 'L';
+  length: number;
+  decimals: number;
+}
+
+const encoder = new TextEncoder();
+
+// Shapefiles want outer rings clockwise and holes counter-clockwise, the reverse of RFC 7946
+function orientRings(rings: number[][][]): number[][][] {
+  return rings.map((ring, i) => {
+    const isClockwise = ringSignedArea(ring) < 0;
+    const shouldBeClockwise = i === 0;
+    return isClockwise === shouldBeClockwise ? ring : ring.slice().reverse();
+  });
+}
+
+// The parts of a feature's geometry: oriented rings for (multi)polygons, the path for lines
+function shapeParts(feature: GeoJSONFeature, shapeType: number): number[][][] {
+  if (shapeType === SHAPE_POLYLINE) {
+    return [feature.geometry.coordinates as number[][]];
+  }
+  return getPolygons(feature.geometry).reduce<number[][][]>(
+    (parts, polygon) => parts.concat(orientRings(polygon.filter(ring => ring.length > 0))),
+    []
+  );
+}
+
+function positionsBBox(positions: number[][]): BBox {
+  const bbox: BBox = [Infinity, Infinity, -Infinity, -Infinity];
+  for (const [x, y] of positions) {
+    bbox[0] = Math.min(bbox[0], x);
+    bbox[1] = Math.min(bbox[1], y);
+    bbox[2] = Math.max(bbox[2], x);
+    bbox[3] = Math.max(bbox[3], y);
+  }
+  return bbox;
+}
+
+function mergeBBox(a: BBox, b: BBox): BBox {
+  return [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])];
+}
+
+// Encode one geometry as shape record content (without the 8-byte record header)
+function encodeShape(feature: GeoJSONFeature, shapeType: number): { content: Uint8Array; bbox: BBox | null } {
+  if (shapeType === SHAPE_POINT) {
+    const [x, y] = feature.geometry.coordinates as number[];
+    const content = new Uint8Array(20);
+    const view = new DataView(content.buffer);
+    view.setInt32(0, SHAPE_POINT, true);
+    view.setFloat64(4, x, true);
+    view.setFloat64(12, y, true);
+    return { content, bbox: [x, y, x, y] };
+  }
+
+  // Polygon and PolyLine records share the same layout
+  const rings = shapeParts(feature, shapeType).filter(part => part.length > 0);
+  if (rings.length === 0) {
+    const content = new Uint8Array(4);
+    new DataView(content.buffer).setInt32(0, SHAPE_NULL, true);
+    return { content, bbox: null };
+  }
+
+  const positions = rings.reduce<number[][]>((all, ring) => all.concat(ring), []);
+  const bbox = positionsBBox(positions);
+  const content = new Uint8Array(44 + 4 * rings.length + 16 * positions.length);
+  const view = new DataView(content.buffer);
+
+  view.setInt32(0, shapeType, true);
+  bbox.forEach((value, i) => view.setFloat64(4 + i * 8, value, true));
+  view.setInt32(36, rings.length, true);
+  view.setInt32(40, positions.length, true);
+
+  let partStart = 0;
+  rings.forEach((ring, i) => {
+    view.setInt32(44 + i * 4, partStart, true);
+    partStart += ring.length;
+  });
+
+  const pointsOffset = 44 + 4 * rings.length;
+  positions.forEach(([x, y], i) => {
+    view.setFloat64(pointsOffset + i * 16, x, true);
+    view.setFloat64(pointsOffset + i * 16 + 8, y, true);
+  });
+
+  return { content, bbox };
+}
+
+function writeFileHeader(view: DataView, fileLengthBytes: number, shapeType: number, bbox: BBox) {
+  view.setInt32(0, 9994, false); // File code
+  view.setInt32(24, fileLengthBytes / 2, false); // File length in 16-bit words
+  view.setInt32(28, 1000, true); // Version
+  view.setInt32(32, shapeType, true);
+  bbox.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+}
+
+// Build the .shp and .shx files for one layer
+function encodeGeometries(features: GeoJSONFeature[], shapeType: number): { shp: Uint8Array; shx: Uint8Array } {
+  const shapes = features.map(feature => encodeShape(feature, shapeType));
+  const bbox = shapes.reduce<BBox | null>((acc, shape) => {
+    if (!shape.bbox) return acc;
+    return acc ? mergeBBox(acc, shape.bbox) : shape.bbox;
+  }, null) || [0, 0, 0, 0];
+
+  const shpLength = 100 + shapes.reduce((sum, shape) => sum + 8 + shape.content.length, 0);
+  const shxLength = 100 + 8 * shapes.length;
+  const shp = new Uint8Array(shpLength);
+  const shx = new Uint8Array(shxLength);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+
+  writeFileHeader(shpView, shpLength, shapeType, bbox);
+  writeFileHeader(shxView, shxLength, shapeType, bbox);
+
+  let offset = 100;
+  shapes.forEach((shape, i) => {
+    shpView.setInt32(offset, i + 1, false); // Record number (1-based)
+    shpView.setInt32(offset + 4, shape.content.length / 2, false); // Content length in words
+    shp.set(shape.content, offset + 8);
+
+    shxView.setInt32(100 + i * 8, offset / 2, false);
+    shxView.setInt32(100 + i * 8 + 4, shape.content.length / 2, false);
+
+    offset += 8 + shape.content.length;
+  });
+
+  return { shp, shx };
+}
+
+// Truncate property names to the 10-character DBF limit, adding numeric suffixes on collisions
+export function truncateFieldNames(properties: string[]): string[] {
+  const used: { [upperName: string]: true } = {};
+
+  return properties.map(property => {
+    const base = property.replace(/[^A-Za-z0-9_]/g, '_') || 'FIELD';
+    let candidate = base.substring(0, DBF_FIELD_NAME_LENGTH);
+
+    for (let suffix = 1; used[candidate.toUpperCase()]; suffix++) {
+      const suffixText = `_${suffix}`;
+      candidate = base.substring(0, DBF_FIELD_NAME_LENGTH - suffixText.length) + suffixText;
+    }
+
+    used[candidate.toUpperCase()] = true;
+    return candidate;
+  });
+}
+
+function formatCharacter(value: any): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// Pick a DBF field type and width for each property from the values it takes across features
+function describeFields(features: GeoJSONFeature[]): DBFField[] {
+  const properties: string[] = [];
+  for (const feature of features) {
+    for (const key of Object.keys(feature.properties)) {
+      if (properties.indexOf(key) === -1) {
+        properties.push(key);
+      }
+    }
+  }
+
+  const names = truncateFieldNames(properties);
+
+  return properties.map((property, i) => {
+    const values = features
+      .map(feature => feature.properties[property])
+      .filter(value => value !== null && value !== undefined);
+
+    if (values.length > 0 && values.every(value => typeof value === 'boolean')) {
+      return { name: names[i], property, type: 'L', length: 1, decimals: 0 };
+    }
+    if (values.length > 0 && values.every(value => typeof value === 'number' && isFinite(value))) {
+      const decimals = values.every(value => Number.isInteger(value)) ? 0 : DBF_NUMERIC_DECIMALS;
+      return { name: names[i], property, type: 'N', length: DBF_NUMERIC_LENGTH, decimals };
+    }
+
+    const maxLength = values.reduce((max, value) => Math.max(max, encoder.encode(formatCharacter(value)).length), 1);
+    return { name: names[i], property, type: 'C', length: Math.min(maxLength, DBF_MAX_CHARACTER_LENGTH), decimals: 0 };
+  });
+}
+
+function encodeFieldValue(field: DBFField, value: any): Uint8Array {
+  const bytes = new Uint8Array(field.length).fill(0x20); // Space padded
+
+  if (value === null || value === undefined) {
+    if (field.type === 'L') bytes[0] = 0x3f; // '?'
+    return bytes;
+  }
+
+  if (field.type === 'L') {
+    bytes[0] = value ? 0x54 : 0x46; // 'T' or 'F'
+  } else if (field.type === 'N') {
+    // Numbers are right-aligned
+    const text = encoder.encode(Number(value).toFixed(field.decimals)).slice(0, field.length);
+    bytes.set(text, field.length - text.length);
+  } else {
+    bytes.set(encoder.encode(formatCharacter(value)).slice(0, field.length));
+  }
+
+  return bytes;
+}
+
+function encodeDBF(features: GeoJSONFeature[]): Uint8Array {
+  const fields = describeFields(features);
+  const headerLength = 32 + 32 * fields.length + 1;
+  const recordLength = 1 + fields.reduce((sum, field) => sum + field.length, 0);
+  const dbf = new Uint8Array(headerLength + recordLength * features.length + 1);
+  const view = new DataView(dbf.buffer);
+  const now = new Date();
+
+  view.setUint8(0, 0x03); // dBase III without memo
+  view.setUint8(1, now.getFullYear() - 1900);
+  view.setUint8(2, now.getMonth() + 1);
+  view.setUint8(3, now.getDate());
+  view.setUint32(4, features.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  fields.forEach((field, i) => {
+    const offset = 32 + i * 32;
+    dbf.set(encoder.encode(field.name), offset); // Null padded to 11 bytes
+    view.setUint8(offset + 11, field.type.charCodeAt(0));
+    view.setUint8(offset + 16, field.length);
+    view.setUint8(offset + 17, field.decimals);
+  });
+  view.setUint8(headerLength - 1, 0x0d); // Header terminator
+
+  features.forEach((feature, recordIndex) => {
+    let offset = headerLength + recordIndex * recordLength;
+    dbf[offset++] = 0x20; // Not deleted
+    for (const field of fields) {
+      dbf.set(encodeFieldValue(field, feature.properties[field.property]), offset);
+      offset += field.length;
+    }
+  });
+  dbf[dbf.length - 1] = 0x1a; // End of file
+
+  return dbf;
+}
+
+function layerEntries(name: string, features: GeoJSONFeature[], shapeType: number): ZipEntry[] {
+  const { shp, shx } = encodeGeometries(features, shapeType);
+  return [
+    { name: `${name}.shp`, data: shp },
+    { name: `${name}.shx`, data: shx },
+    { name: `${name}.dbf`, data: encodeDBF(features) },
+    { name: `${name}.prj`, data: encoder.encode(WGS84_PRJ) },
+    { name: `${name}.cpg`, data: encoder.encode('UTF-8') }
+  ];
+}
+
+// Convert a FeatureCollection to a zipped ESRI Shapefile. A Shapefile holds a single geometry
+// type, so polygons, lines and points (e.g. custom markers) are written as separate layers.
+export function toShapefile(geojson: GeoJSONResponse, options: ShapefileOptions = {}): ArrayBuffer {
+  const { name = 'stations' } = options;
+  const polygons = geojson.features.filter(feature =>
+    feature.geometry.type === 'Polygon' || feature.geometry.type === 'MultiPolygon'
+  );
+  const lines = geojson.features.filter(feature => feature.geometry.type === 'LineString');
+  const points = geojson.features.filter(feature => feature.geometry.type === 'Point');
+
+  const entries: ZipEntry[] = [];
+  if (polygons.length > 0) {
+    entries.push(...layerEntries(`${name}_polygons`, polygons, SHAPE_POLYGON));
+  }
+  if (lines.length > 0) {
+    entries.push(...layerEntries(`${name}_lines`, lines, SHAPE_POLYLINE));
+  }
+  if (points.length > 0) {
+    entries.push(...layerEntries(`${name}_points`, points, SHAPE_POINT));
+  }
+
+  return createZip(entries);
+}
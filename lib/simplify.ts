@@ -0,0 +1,161 @@
+import { getPositions, Position } from './geometry';
+import { computeMetrics, featuresBBox, localProjection, Projection, segmentDistance } from './metrics';
+import { isCollinear, ringSelfIntersects, ringsIntersect } from './topology';
+import type { GeoJSONGeometry, GeoJSONResponse, SimplifyOptions, SimplifyReport } from './types';
+
+// How many times preserveTopology halves the tolerance before keeping a ring as-is
+const MAX_TOPOLOGY_RETRIES = 6;
+
+// Douglas-Peucker: keep the vertex farthest from each chord while it is more than tolerance away
+function douglasPeucker(points: Array<[number, number]>, tolerance: number): boolean[] {
+  const keep = points.map((_, i) => i === 0 || i === points.length - 1);
+  const stack: Array<[number, number]> = [[0, points.length - 1]];
+
+  while (stack.length > 0) {
+    const [first, last] = stack.pop()!;
+    let farthest = -1;
+    let maxDistance = tolerance;
+    for (let i = first + 1; i < last; i++) {
+      const distance = segmentDistance(points[i], points[first], points[last]);
+      if (distance > maxDistance) {
+        farthest = i;
+        maxDistance = distance;
+      }
+    }
+    if (farthest !== -1) {
+      keep[farthest] = true;
+      stack.push([first, farthest], [farthest, last]);
+    }
+  }
+
+  return keep;
+}
+
+function triangleArea(a: [number, number], b: [number, number], c: [number, number]): number {
+  return Math.abs((b[0] - a[0]) * (c[1] - a[1]) - (c[0] - a[0]) * (b[1] - a[1])) / 2;
+}
+
+// Visvalingam-Whyatt: repeatedly drop the vertex whose triangle with its neighbours has the
+// smallest area, while that area is below tolerance² (m²)
+function visvalingam(points: Array<[number, number]>, tolerance: number): boolean[] {
+  const keep = points.map(() => true);
+  const previous = points.map((_, i) => i - 1);
+  const next = points.map((_, i) => i + 1);
+  const threshold = tolerance * tolerance;
+  const area = (i: number) => triangleArea(points[previous[i]], points[i], points[next[i]]);
+  const areas = points.map((_, i) => (i === 0 || i === points.length - 1 ? Infinity : area(i)));
+
+  for (;;) {
+    let smallest = -1;
+    for (let i = 1; i < points.length - 1; i++) {
+      if (keep[i] && (smallest === -1 || areas[i] < areas[smallest])) smallest = i;
+    }
+    if (smallest === -1 || areas[smallest] >= threshold) break;
+
+    keep[smallest] = false;
+    const before = previous[smallest];
+    const after = next[smallest];
+    next[before] = after;
+    previous[after] = before;
+    // A neighbour's area never drops below the one just removed, so removal order stays monotonic
+    if (before > 0) areas[before] = Math.max(area(before), areas[smallest]);
+    if (after < points.length - 1) areas[after] = Math.max(area(after), areas[smallest]);
+  }
+
+  return keep;
+}
+
+// Simplify a line or a closed ring. The first and last positions are always kept.
+function simplifyPositions(positions: Position[], tolerance: number, options: SimplifyOptions, project: Projection): Position[] {
+  if (positions.length <= 2) return positions;
+  const points = positions.map(project);
+  const keep = options.algorithm === 'visvalingam'
+    ? visvalingam(points, tolerance)
+    : douglasPeucker(points, tolerance);
+  return positions.filter((_, i) => keep[i]);
+}
+
+// A simplified ring is acceptable when it still encloses an area, does not cross itself and does
+// not touch the other rings of its polygon
+function isValidRing(ring: Position[], otherRings: Position[][]): boolean {
+  return ring.length >= 4 &&
+    !isCollinear(ring) &&
+    !ringSelfIntersects(ring) &&
+    !otherRings.some(other => ringsIntersect(ring, other));
+}
+
+function simplifyPolygon(rings: Position[][], options: SimplifyOptions, project: Projection): Position[][] {
+  const result = rings.slice();
+  rings.forEach((ring, i) => {
+    if (!options.preserveTopology) {
+      result[i] = simplifyPositions(ring, options.tolerance, options, project);
+      return;
+    }
+
+    // Halve the tolerance until the ring stays valid, and keep the original ring otherwise
+    const otherRings = result.filter((_, j) => j !== i);
+    let tolerance = options.tolerance;
+    for (let attempt = 0; attempt <= MAX_TOPOLOGY_RETRIES; attempt++) {
+      const candidate = simplifyPositions(ring, tolerance, options, project);
+      if (isValidRing(candidate, otherRings)) {
+        result[i] = candidate;
+        return;
+      }
+      tolerance /= 2;
+    }
+  });
+  return result;
+}
+
+// Number of positions in a geometry, including the closing position of each ring
+export function countVertices(geometry: GeoJSONGeometry): number {
+  return getPositions(geometry).length;
+}
+
+// Simplify a LineString, Polygon or MultiPolygon with a tolerance in metres. Points are returned
+// unchanged. With preserveTopology, polygon rings never self-intersect, touch the other rings of
+// their polygon or collapse below four positions.
+export function simplifyGeometry(geometry: GeoJSONGeometry, options: SimplifyOptions): GeoJSONGeometry {
+  if (!(options.tolerance > 0) || geometry.type === 'Point') {
+    return geometry;
+  }
+
+  const positions = getPositions(geometry);
+  const meanLatitude = positions.reduce((sum, position) => sum + position[1], 0) / positions.length;
+  const project = localProjection(meanLatitude);
+
+  switch (geometry.type) {
+    case 'LineString':
+      return { type: 'LineString', coordinates: simplifyPositions(geometry.coordinates as Position[], options.tolerance, options, project) };
+    case 'Polygon':
+      return { type: 'Polygon', coordinates: simplifyPolygon(geometry.coordinates as Position[][], options, project) };
+    default:
+      return {
+        type: 'MultiPolygon',
+        coordinates: (geometry.coordinates as Position[][][]).map(polygon => simplifyPolygon(polygon, options, project))
+      };
+  }
+}
+
+// Simplify every feature of a FeatureCollection, updating its bbox and the metrics of features
+// that have them (area_m2 and the rest, in WGS84 collections). Report indexes refer to the
+// collection.
+export function simplifyCollection(geojson: GeoJSONResponse, options: SimplifyOptions): { geojson: GeoJSONResponse; report: SimplifyReport[] } {
+  const report: SimplifyReport[] = [];
+  const features = geojson.features.map((feature, featureIndex) => {
+    const geometry = simplifyGeometry(feature.geometry, options);
+    report.push({
+      featureIndex,
+      featureName: feature.properties.name,
+      verticesBefore: countVertices(feature.geometry),
+      verticesAfter: countVertices(geometry)
+    });
+    const metrics = feature.properties.area_m2 !== undefined && !geojson.crs ? computeMetrics(geometry) : null;
+    return { ...feature, properties: metrics ? { ...feature.properties, ...metrics } : feature.properties, geometry };
+  });
+  const simplified: GeoJSONResponse = { ...geojson, features };
+  if (geojson.bbox) {
+    simplified.bbox = featuresBBox(features) || undefined;
+  }
+  return { geojson: simplified, report };
+}
@@ -0,0 +1,80 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { createConversionStream, MAX_STREAM_WARNINGS, StreamOptions } from './stream';
+
+// Corners of a square of 0.01° with its south-west corner at [lng, lat], counter-clockwise
+function square(lng: number, lat: number): Array<{ lat: number; long: number }> {
+  return [[lng, lat], [lng + 0.01, lat], [lng + 0.01, lat + 0.01], [lng, lat + 0.01]].map(([long, lat]) => ({ lat, long }));
+}
+
+function station(name: string, index: number) {
+  return { name, polygon: square(106.8 + index * 0.1, -6.21) };
+}
+
+// Feed the text in chunks of chunkSize characters, so items and strings are cut at every place
+async function run(text: string, options: StreamOptions, chunkSize = 7): Promise<string> {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let i = 0; i < text.length; i += chunkSize) {
+        controller.enqueue(encoder.encode(text.slice(i, i + chunkSize)));
+      }
+      controller.close();
+    }
+  });
+  return new Response(createConversionStream(body, options)).text();
+}
+
+// The records of a GeoJSON text sequence
+function records(text: string): any[] {
+  return text.split('\x1e').filter(record => record !== '').map(record => JSON.parse(record));
+}
+
+describe('createConversionStream', () => {
+  const stations = [station('A', 0), station('B "north"', 1), station('C [east]', 2)];
+
+  it('splits NDJSON into features', async () => {
+    const ndjson = `${stations.map(item => JSON.stringify(item)).join('\n')}\n\n`;
+    const output = records(await run(ndjson, { input: 'ndjson', output: 'geojson-seq' }));
+    assert.deepEqual(output.slice(0, 3).map(feature => feature.properties.name), ['A', 'B "north"', 'C [east]']);
+    assert.deepEqual(output[3], { featureCount: 3, bbox: [106.8, -6.21, 107.01, -6.2], warningCount: 0, warnings: [] });
+  });
+
+  it('splits a JSON array into features across chunks', async () => {
+    const json = JSON.stringify([{ id: 1, area_name: 'North', area_list: stations.slice(0, 2) }, stations[2]], null, 2);
+    const chunkSizes = [1, 5, 64];
+    for (const chunkSize of chunkSizes) {
+      const output = records(await run(json, { input: 'json', output: 'geojson-seq' }, chunkSize));
+      assert.deepEqual(output.slice(0, 3).map(feature => [feature.properties.name, feature.properties.area_name]), [
+        ['A', 'North'],
+        ['B "north"', 'North'],
+        ['C [east]', undefined]
+      ]);
+      assert.equal(output[3].featureCount, 3);
+    }
+  });
+
+  it('writes a FeatureCollection with the summary members', async () => {
+    const collection = JSON.parse(await run(JSON.stringify(stations), { input: 'json', output: 'geojson' }));
+    assert.equal(collection.type, 'FeatureCollection');
+    assert.equal(collection.features.length, 3);
+    assert.deepEqual([collection.warningCount, collection.warnings], [0, []]);
+  });
+
+  it('reports an unclosed JSON array in the summary', async () => {
+    const output = records(await run(JSON.stringify(stations).slice(0, -1), { input: 'json', output: 'geojson-seq' }));
+    assert.equal(output.length, 4);
+    assert.equal(output[3].error, 'Invalid input: The JSON array is not closed');
+  });
+
+  it('lists the first MAX_STREAM_WARNINGS warnings and counts all of them', async () => {
+    // Each station has one invalid latitude
+    const invalid = (index: number) => ({ name: `S${index}`, polygon: [{ lat: 95, long: 106.8 }, ...square(106.8 + index * 0.1, -6.21).slice(1)] });
+    const count = MAX_STREAM_WARNINGS + 5;
+    const ndjson = Array.from({ length: count }, (_, index) => JSON.stringify(invalid(index))).join('\n');
+    const summary = records(await run(ndjson, { input: 'ndjson', output: 'geojson-seq' }, 4096)).pop();
+    assert.equal(summary.featureCount, count);
+    assert.ok(summary.warningCount >= count);
+    assert.equal(summary.warnings.length, MAX_STREAM_WARNINGS);
+  });
+});
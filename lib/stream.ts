@@ -0,0 +1,270 @@
+import { checkCRSOptions, collectItemSources, ConversionError, convertFeature, createOutputProjection } from './converter';
+import { namedCRS } from './crs';
+import { featuresBBox } from './metrics';
+import type { BBox, ConvertOptions, CoordinateWarning, GeoJSONFeature, SimplifyReport, StreamInputFormat, StreamOutputFormat } from './types';
+
+export interface StreamOptions extends ConvertOptions {
+  input: StreamInputFormat;
+  output: StreamOutputFormat;
+}
+
+export const GEOJSON_MIME_TYPE = 'application/geo+json';
+export const GEOJSON_SEQ_MIME_TYPE = 'application/geo+json-seq';
+
+// RFC 8142 starts every record with an ASCII record separator
+const RECORD_SEPARATOR = '\x1e';
+
+// Warnings kept for the summary; later ones are only counted, so bad rows do not grow memory
+export const MAX_STREAM_WARNINGS = 1000;
+
+// Cuts streamed text into the JSON texts of the input items
+interface ItemSplitter {
+  push(text: string): string[];
+  end(): string[];
+}
+
+// One item per line. Blank lines are skipped, and RFC 8142 record separators are allowed.
+function ndjsonSplitter(): ItemSplitter {
+  let rest = '';
+  const items = (lines: string[]) => lines
+    .map(line => line.replace(/^\x1e/, '').trim())
+    .filter(line => line !== '');
+
+  return {
+    push(text) {
+      const lines = (rest + text).split('\n');
+      rest = lines.pop()!;
+      return items(lines);
+    },
+    end() {
+      const last = items([rest]);
+      rest = '';
+      return last;
+    }
+  };
+}
+
+function isWhitespace(char: string): boolean {
+  return char === ' ' || char === '\n' || char === '\r' || char === '\t';
+}
+
+// The elements of a top-level JSON array, found by tracking brackets and strings. Only the
+// element being read is buffered.
+function jsonArraySplitter(): ItemSplitter {
+  let state: 'before' | 'between' | 'item' | 'after' = 'before';
+  let item = '';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  return {
+    push(text) {
+      const items: string[] = [];
+      let start = 0; // Where the current item starts in this chunk
+
+      for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (state === 'item') {
+          if (inString) {
+            if (escaped) {
+              escaped = false;
+            } else if (char === '\\') {
+              escaped = true;
+            } else if (char === '"') {
+              inString = false;
+            }
+          } else if (char === '"') {
+            inString = true;
+          } else if (char === '{' || char === '[') {
+            depth++;
+          } else if ((char === '}' || char === ']') && depth > 0) {
+            depth--;
+            if (depth === 0) {
+              items.push(item + text.slice(start, i + 1));
+              item = '';
+              state = 'between';
+            }
+          } else if (depth === 0 && (char === ',' || char === ']')) {
+            // End of a number or literal item
+            items.push((item + text.slice(start, i)).trim());
+            item = '';
+            state = char === ']' ? 'after' : 'between';
+          }
+          continue;
+        }
+
+        if (isWhitespace(char)) continue;
+        if (state === 'before') {
+          if (char !== '[') {
+            throw new ConversionError('Invalid input: Expected a JSON array of feature data or area data');
+          }
+          state = 'between';
+        } else if (state === 'after') {
+          throw new ConversionError('Invalid input: Unexpected data after the JSON array');
+        } else if (char === ']') {
+          state = 'after';
+        } else if (char !== ',') {
+          state = 'item';
+          start = i;
+          depth = char === '{' || char === '[' ? 1 : 0;
+          inString = char === '"';
+        }
+      }
+
+      if (state === 'item') {
+        item += text.slice(start);
+      }
+      return items;
+    },
+    end() {
+      if (state !== 'after') {
+        throw new ConversionError('Invalid input: The JSON array is not closed');
+      }
+      return [];
+    }
+  };
+}
+
+function extendBBox(bbox: BBox | null, other: BBox | null): BBox | null {
+  if (!bbox || !other) return bbox || other;
+  return [Math.min(bbox[0], other[0]), Math.min(bbox[1], other[1]), Math.max(bbox[2], other[2]), Math.max(bbox[3], other[3])];
+}
+
+// Convert a stream of station data (NDJSON, or a JSON array sent in chunks) to a GeoJSON text
+// sequence (RFC 8142) or a FeatureCollection, one feature at a time. Only the current input
+// item is held in memory, plus the first MAX_STREAM_WARNINGS warnings, which are written after
+// the last feature together with the number of all warnings:
+// - geojson-seq: as a final record { featureCount, bbox, warningCount, warnings, simplification?, error? }
+// - geojson: as "bbox", "warningCount", "warnings" and "error" members after "features"
+// Errors after the output has started (invalid JSON, a missing name, an invalid coordinate
+// under the 'fail' policy) end the output early with the error in that summary.
+export function createConversionStream(body: ReadableStream<Uint8Array>, options: StreamOptions): ReadableStream<Uint8Array> {
+  checkCRSOptions(options);
+
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  const splitter = options.input === 'ndjson' ? ndjsonSplitter() : jsonArraySplitter();
+  const project = createOutputProjection(options);
+  const isSequence = options.output === 'geojson-seq';
+
+  const warnings: CoordinateWarning[] = [];
+  let warningCount = 0;
+  const simplification: SimplifyReport[] = [];
+  let pending: string[] = [];
+  let itemIndex = 0;
+  let featureIndex = 0;
+  let featureCount = 0;
+  let bbox: BBox | null = null;
+  let started = false;
+  let finished = false;
+
+  const formatFeature = (feature: GeoJSONFeature) => {
+    if (isSequence) {
+      return `${RECORD_SEPARATOR}${JSON.stringify(feature)}\n`;
+    }
+    return `${featureCount === 0 ? '' : ',\n'}${JSON.stringify(feature)}`;
+  };
+
+  const header = () => {
+    if (isSequence) return '';
+    const crs = project ? `"crs":${JSON.stringify(namedCRS(options.targetCrs!))},` : '';
+    return `{"type":"FeatureCollection",${crs}"features":[\n`;
+  };
+
+  const footer = (error?: string) => {
+    const summary = {
+      ...(bbox ? { bbox } : {}),
+      warningCount,
+      warnings,
+      ...(options.simplify && options.simplify.tolerance > 0 ? { simplification } : {}),
+      ...(error ? { error } : {})
+    };
+    if (isSequence) {
+      return `${RECORD_SEPARATOR}${JSON.stringify({ featureCount, ...summary })}\n`;
+    }
+    // Close the features array and continue the collection object with the summary members
+    return `\n],${JSON.stringify(summary).slice(1)}\n`;
+  };
+
+  // Convert one input item (a station, or an area with its stations) to output text
+  const convertItem = (text: string): string => {
+    let item: unknown;
+    try {
+      item = JSON.parse(text);
+    } catch (error) {
+      throw new ConversionError(`Invalid JSON at index ${itemIndex}: ${(error as Error).message}`);
+    }
+
+    const sources = collectItemSources(item, itemIndex++, featureIndex);
+    featureIndex += sources.length;
+
+    let output = '';
+    for (const source of sources) {
+      const featureWarnings: CoordinateWarning[] = [];
+      const feature = convertFeature(source, options, featureWarnings, simplification);
+      warningCount += featureWarnings.length;
+      warnings.push(...featureWarnings.slice(0, MAX_STREAM_WARNINGS - warnings.length));
+      if (featureWarnings.some(warning => warning.action === 'failed')) {
+        throw new ConversionError(`Invalid data in feature ${source.featureIndex} "${source.feature.name}": conversion stopped`, 422);
+      }
+      if (!feature) continue;
+
+      const projected = project ? project(feature) : feature;
+      bbox = extendBBox(bbox, featuresBBox([projected]));
+      output += formatFeature(projected);
+      featureCount++;
+    }
+    return output;
+  };
+
+  return new ReadableStream<Uint8Array>({
+    // Pulling only when the consumer wants more keeps reading and writing in step
+    async pull(controller) {
+      try {
+        if (!started) {
+          started = true;
+          controller.enqueue(encoder.encode(header()));
+          return;
+        }
+
+        for (;;) {
+          if (pending.length > 0) {
+            const output = convertItem(pending.shift()!);
+            if (output) {
+              controller.enqueue(encoder.encode(output));
+              return;
+            }
+            continue;
+          }
+          if (finished) {
+            controller.enqueue(encoder.encode(footer()));
+            controller.close();
+            return;
+          }
+
+          const { done, value } = await reader.read();
+          if (done) {
+            pending = splitter.push(decoder.decode()).concat(splitter.end());
+            finished = true;
+          } else {
+            pending = splitter.push(decoder.decode(value, { stream: true }));
+          }
+        }
+      } catch (error) {
+        // The response status is already sent, so the error goes into the summary
+        if (!(error instanceof ConversionError)) {
+          console.error('Error streaming GeoJSON conversion:', error);
+        }
+        const message = error instanceof ConversionError ? error.message : 'Failed to convert data to GeoJSON';
+        controller.enqueue(encoder.encode(footer(message)));
+        controller.close();
+        reader.cancel().catch(() => undefined);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    }
+  });
+}
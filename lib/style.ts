@@ -0,0 +1,136 @@
+import type { GeoJSONFeature, GeoJSONResponse } from './types';
+
+// Categories: a colour per distinct value. Range: the values split into equal ranges.
+export type StyleMode = 'categorical' | 'numeric';
+
+export interface StyleOptions {
+  property: string | null; // null draws every feature in the default colour
+  mode: StyleMode;
+}
+
+export interface LegendEntry {
+  color: string;
+  label: string;
+  missing?: boolean; // Features without a value for the property
+}
+
+export interface FeatureStyler {
+  getColor(feature: GeoJSONFeature): string;
+  legend: LegendEntry[];
+}
+
+export const DEFAULT_FILL = '#3b82f6';
+export const DEFAULT_STROKE = '#1e40af';
+export const MISSING_COLOR = '#9ca3af';
+export const FILL_OPACITY = 0.6;
+
+// simplestyle-spec properties that draw a feature, as written by applySimplestyle and by
+// editors such as geojson.io
+export const SIMPLESTYLE_PROPERTIES = ['fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'marker-color', 'marker-size', 'marker-symbol'];
+
+const CATEGORY_COLORS = ['#3b82f6', '#f59e0b', '#10b981', '#ef4444', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#84cc16', '#6366f1'];
+
+// Light to dark, one colour per range
+const RANGE_COLORS = ['#ffffcc', '#a1dab4', '#41b6c4', '#2c7fb8', '#253494'];
+
+function isMissing(value: any): boolean {
+  return value === undefined || value === null || value === '';
+}
+
+// Numbers, and strings holding nothing but a number
+function toRangeValue(value: any): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+}
+
+const formatNumber = (value: number) => (Math.round(value * 100) / 100).toString();
+
+// Whether every value of a property that is set is a number, so it can be coloured as a range
+export function isNumericProperty(features: GeoJSONFeature[], property: string): boolean {
+  const values = features.map(feature => feature.properties[property]).filter(value => !isMissing(value));
+  return values.length > 0 && values.every(value => isFinite(toRangeValue(value)));
+}
+
+// A darker shade of a #rrggbb colour, for outlines
+export function getStrokeColor(fill: string): string {
+  if (fill === DEFAULT_FILL) return DEFAULT_STROKE;
+  const channels = [1, 3, 5].map(start => Math.round(parseInt(fill.slice(start, start + 2), 16) * 0.65));
+  return `#${channels.map(channel => (channel < 16 ? '0' : '') + channel.toString(16)).join('')}`;
+}
+
+// Colours for the features of a collection by one of their properties, with the matching
+// legend. Categories are coloured in sorted order, cycling through the palette when there are
+// more values than colours. Features without a value are grey.
+export function createFeatureStyler(features: GeoJSONFeature[], options: StyleOptions): FeatureStyler {
+  const property = options.property;
+  if (!property) {
+    return { getColor: () => DEFAULT_FILL, legend: [] };
+  }
+
+  const values = features.map(feature => feature.properties[property]);
+  const missingEntry: LegendEntry[] = values.some(isMissing) ? [{ color: MISSING_COLOR, label: '', missing: true }] : [];
+
+  if (options.mode === 'numeric') {
+    const numbers = values.map(toRangeValue).filter(value => isFinite(value));
+    const min = numbers.reduce((result, value) => Math.min(result, value), Infinity);
+    const max = numbers.reduce((result, value) => Math.max(result, value), -Infinity);
+    const rangeCount = numbers.length === 0 ? 0 : max === min ? 1 : RANGE_COLORS.length;
+    const step = (max - min) / rangeCount;
+    // A single value gets the darkest colour
+    const colorOf = (range: number) => RANGE_COLORS[RANGE_COLORS.length - rangeCount + range];
+
+    const legend: LegendEntry[] = [];
+    for (let range = 0; range < rangeCount; range++) {
+      const label = rangeCount === 1 ? formatNumber(min) : `${formatNumber(min + range * step)} – ${formatNumber(min + (range + 1) * step)}`;
+      legend.push({ color: colorOf(range), label });
+    }
+    return {
+      getColor: feature => {
+        const value = toRangeValue(feature.properties[property]);
+        if (!isFinite(value) || rangeCount === 0) return MISSING_COLOR;
+        return colorOf(rangeCount === 1 ? 0 : Math.max(0, Math.min(rangeCount - 1, Math.floor((value - min) / step))));
+      },
+      legend: legend.concat(missingEntry)
+    };
+  }
+
+  const categories: string[] = [];
+  const seen: { [value: string]: boolean } = {};
+  values.forEach(value => {
+    const key = String(value);
+    if (!isMissing(value) && !seen[key]) {
+      seen[key] = true;
+      categories.push(key);
+    }
+  });
+  categories.sort((a, b) => a.localeCompare(b, undefined, { numeric: true }));
+  const colors: { [value: string]: string } = {};
+  categories.forEach((category, i) => {
+    colors[category] = CATEGORY_COLORS[i % CATEGORY_COLORS.length];
+  });
+
+  return {
+    getColor: feature => {
+      const value = feature.properties[property];
+      return isMissing(value) ? MISSING_COLOR : colors[String(value)] || MISSING_COLOR;
+    },
+    legend: categories.map(category => ({ color: colors[category], label: category })).concat(missingEntry)
+  };
+}
+
+// The collection with its colours written as simplestyle-spec properties, which geojson.io and
+// GitHub use to draw features: fill, fill-opacity, stroke and stroke-width for polygons and
+// lines, marker-color for points
+export function applySimplestyle(geojson: GeoJSONResponse, styler: FeatureStyler): GeoJSONResponse {
+  return {
+    ...geojson,
+    features: geojson.features.map(feature => {
+      const color = styler.getColor(feature);
+      const style = feature.geometry.type === 'Point'
+        ? { 'marker-color': color }
+        : { fill: color, 'fill-opacity': FILL_OPACITY, stroke: getStrokeColor(color), 'stroke-width': 2 };
+      return { ...feature, properties: { ...feature.properties, ...style } };
+    })
+  };
+}
@@ -0,0 +1,132 @@
+import { computeMetrics } from './metrics';
+import { countVertices } from './simplify';
+import type { CoordinateWarning, GeoJSONFeature } from './types';
+
+// Computed columns of the feature table, shown after the property columns
+export const COMPUTED_COLUMNS = ['vertices', 'area_m2', 'warnings'];
+
+// Properties with fewer distinct values than this get a filter, e.g. is_active or area_name
+const MAX_FILTER_OPTIONS = 20;
+
+export type CellValue = string | number | boolean | null;
+
+export interface FeatureRow {
+  index: number; // Index in the output features
+  values: { [column: string]: CellValue };
+}
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface TableQuery {
+  search: string; // Matched case-insensitively against every cell
+  filters: { [column: string]: string }; // Cell value as text; empty or missing matches all
+  sortColumn: string | null;
+  sortDirection: SortDirection;
+}
+
+function isCellValue(value: any): value is CellValue {
+  return value === null || typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean';
+}
+
+// Property columns: every property holding a plain value in some feature, in first-seen order.
+// Nested values (such as the centroid and bbox metrics) are left out, and so is area_m2, which
+// is a computed column.
+export function getPropertyColumns(features: GeoJSONFeature[]): string[] {
+  const columns: string[] = [];
+  const seen: { [column: string]: boolean } = {};
+  features.forEach(feature => {
+    const properties = feature.properties;
+    Object.keys(properties).forEach(key => {
+      if (!seen[key] && COMPUTED_COLUMNS.indexOf(key) === -1 && isCellValue(properties[key])) {
+        seen[key] = true;
+        columns.push(key);
+      }
+    });
+  });
+  return columns;
+}
+
+// One row per feature: its plain properties, vertex count, area in m² (null for points and
+// lines) and the number of warnings about its station. featureIndexes maps output features to
+// the featureIndex used in warnings (-1 for markers, which get no warnings).
+export function buildFeatureRows(features: GeoJSONFeature[], featureIndexes: number[], warnings: CoordinateWarning[]): FeatureRow[] {
+  const warningCounts: { [featureIndex: number]: number } = {};
+  warnings.forEach(warning => {
+    if (warning.featureIndex !== -1) {
+      warningCounts[warning.featureIndex] = (warningCounts[warning.featureIndex] || 0) + 1;
+    }
+  });
+
+  return features.map((feature, index) => {
+    const values: { [column: string]: CellValue } = {};
+    const properties = feature.properties;
+    Object.keys(properties).forEach(key => {
+      if (isCellValue(properties[key])) values[key] = properties[key];
+    });
+
+    const metrics = typeof properties.area_m2 === 'number' ? null : computeMetrics(feature.geometry);
+    const featureIndex = featureIndexes[index] ?? -1;
+    values.vertices = countVertices(feature.geometry);
+    values.area_m2 = typeof properties.area_m2 === 'number' ? properties.area_m2 : metrics ? Math.round(metrics.area_m2 * 100) / 100 : null;
+    values.warnings = featureIndex === -1 ? 0 : warningCounts[featureIndex] || 0;
+    return { index, values };
+  });
+}
+
+export function formatCell(value: CellValue | undefined): string {
+  return value === undefined || value === null ? '' : String(value);
+}
+
+// Distinct values of every property column with a small number of them, sorted, for the filter
+// selectors. Columns where every value differs (names, ids) get no filter, and empty cells are
+// not an option.
+export function getFilterOptions(rows: FeatureRow[], columns: string[]): { [column: string]: string[] } {
+  const options: { [column: string]: string[] } = {};
+  columns.forEach(column => {
+    const values: string[] = [];
+    const seen: { [value: string]: boolean } = {};
+    for (const row of rows) {
+      const value = formatCell(row.values[column]);
+      if (value !== '' && !seen[value]) {
+        seen[value] = true;
+        values.push(value);
+        if (values.length > MAX_FILTER_OPTIONS) return;
+      }
+    }
+    if (values.length > 1 && values.length < rows.length) {
+      options[column] = values.sort();
+    }
+  });
+  return options;
+}
+
+// Numbers compare as numbers, anything else as text with embedded numbers in numeric order
+function compareCells(a: CellValue | undefined, b: CellValue | undefined): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return formatCell(a).localeCompare(formatCell(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+// The rows matching the search and every filter, sorted by the sort column. Empty cells sort last
+// in both directions, and ties keep the output order.
+export function queryRows(rows: FeatureRow[], query: TableQuery): FeatureRow[] {
+  const search = query.search.trim().toLowerCase();
+  const filters = Object.keys(query.filters).filter(column => query.filters[column] !== '');
+
+  const matching = rows.filter(row =>
+    filters.every(column => formatCell(row.values[column]) === query.filters[column]) &&
+    (!search || Object.keys(row.values).some(column => formatCell(row.values[column]).toLowerCase().indexOf(search) !== -1))
+  );
+
+  const column = query.sortColumn;
+  if (!column) {
+    return matching;
+  }
+  const isEmpty = (row: FeatureRow) => formatCell(row.values[column]) === '';
+  const direction = query.sortDirection === 'desc' ? -1 : 1;
+  return matching.slice().sort((a, b) => {
+    if (isEmpty(a) || isEmpty(b)) {
+      return Number(isEmpty(a)) - Number(isEmpty(b)) || a.index - b.index;
+    }
+    return compareCells(a.values[column], b.values[column]) * direction || a.index - b.index;
+  });
+}
@@ -0,0 +1,280 @@
+import { getPolygons, Position } from './geometry';
+import type { GeoJSONGeometry, ValidationIssue } from './types';
+
+export interface TopologyProblem {
+  issue: ValidationIssue;
+  coordinateIndex: number; // Index of the position in document order, as in mapPositions
+  coordinate: [number, number];
+  message: string;
+}
+
+// Cross products below this (in square degrees) are treated as collinear
+const COLLINEAR_EPSILON = 1e-14;
+
+// Shoelace formula on lng/lat: positive for counter-clockwise rings, negative for clockwise.
+// Works for closed and unclosed rings.
+export function ringSignedArea(ring: Position[]): number {
+  let area = 0;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    area += ring[j][0] * ring[i][1] - ring[i][0] * ring[j][1];
+  }
+  return area / 2;
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+function toCoordinate(position: Position): [number, number] {
+  return [position[0], position[1]];
+}
+
+// Which side of line a-b point c lies on: > 0 left, < 0 right, 0 collinear
+function orientation(a: Position, b: Position, c: Position): number {
+  return (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]);
+}
+
+// For a point known to be collinear with a-b, whether it lies within the segment's extent
+function onSegment(a: Position, b: Position, c: Position): boolean {
+  return Math.min(a[0], b[0]) <= c[0] && c[0] <= Math.max(a[0], b[0]) &&
+    Math.min(a[1], b[1]) <= c[1] && c[1] <= Math.max(a[1], b[1]);
+}
+
+// Whether segments p1-p2 and q1-q2 cross at a point inside both, not just touch
+function segmentsCross(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  const d1 = orientation(q1, q2, p1);
+  const d2 = orientation(q1, q2, p2);
+  const d3 = orientation(p1, p2, q1);
+  const d4 = orientation(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+// Whether segments p1-p2 and q1-q2 touch or cross, including collinear overlaps
+export function segmentsIntersect(p1: Position, p2: Position, q1: Position, q2: Position): boolean {
+  if (segmentsCross(p1, p2, q1, q2)) {
+    return true;
+  }
+  const d1 = orientation(q1, q2, p1);
+  const d2 = orientation(q1, q2, p2);
+  const d3 = orientation(p1, p2, q1);
+  const d4 = orientation(p1, p2, q2);
+  return (d1 === 0 && onSegment(q1, q2, p1)) ||
+    (d2 === 0 && onSegment(q1, q2, p2)) ||
+    (d3 === 0 && onSegment(p1, p2, q1)) ||
+    (d4 === 0 && onSegment(p1, p2, q2));
+}
+
+// Consecutive repeated positions. The closing position of a ring is not a duplicate.
+function checkDuplicates(positions: Position[], offset: number, label: string, problems: TopologyProblem[]) {
+  for (let i = 1; i < positions.length; i++) {
+    if (samePosition(positions[i], positions[i - 1])) {
+      problems.push({
+        issue: 'duplicate_vertex',
+        coordinateIndex: offset + i,
+        coordinate: toCoordinate(positions[i]),
+        message: `${label}: vertex ${i} repeats the previous vertex`
+      });
+    }
+  }
+}
+
+// Ray casting point-in-ring test. Points on the boundary count as inside.
+export function pointInRing(point: Position, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const a = ring[j];
+    const b = ring[i];
+    if (orientation(a, b, point) === 0 && onSegment(a, b, point)) {
+      return true;
+    }
+    if ((b[1] > point[1]) !== (a[1] > point[1]) &&
+        point[0] < (a[0] - b[0]) * (point[1] - b[1]) / (a[1] - b[1]) + b[0]) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Whether all vertices of a ring lie on one line (or on one point)
+export function isCollinear(ring: Position[]): boolean {
+  const origin = ring[0];
+  const other = ring.filter(position => !samePosition(position, origin))[0];
+  if (!other) return true;
+  return ring.every(position => Math.abs(orientation(origin, other, position)) < COLLINEAR_EPSILON);
+}
+
+// Pairs of non-adjacent edges of a closed ring that touch or cross. Returns whether any were found.
+function checkSelfIntersections(ring: Position[], offset: number, label: string, problems: TopologyProblem[]): boolean {
+  // Zero-length edges would make every neighbour look like an intersection
+  const vertices: Position[] = [];
+  const indexes: number[] = [];
+  ring.forEach((position, i) => {
+    if (i > 0 && samePosition(position, ring[i - 1])) return;
+    vertices.push(position);
+    indexes.push(i);
+  });
+
+  let found = false;
+  const edgeCount = vertices.length - 1;
+  for (let i = 0; i < edgeCount; i++) {
+    // Edges i and i + 1 share a vertex, as do the first and last edge
+    for (let j = i + 2; j < edgeCount; j++) {
+      if (i === 0 && j === edgeCount - 1) continue;
+      if (segmentsIntersect(vertices[i], vertices[i + 1], vertices[j], vertices[j + 1])) {
+        problems.push({
+          issue: 'self_intersection',
+          coordinateIndex: offset + indexes[j],
+          coordinate: toCoordinate(vertices[j]),
+          message: `${label}: edge ${indexes[i]}-${indexes[i + 1]} intersects edge ${indexes[j]}-${indexes[j + 1]}`
+        });
+        found = true;
+      }
+    }
+  }
+  return found;
+}
+
+// Whether any two non-adjacent edges of a closed ring touch or cross
+export function ringSelfIntersects(ring: Position[]): boolean {
+  return checkSelfIntersections(ring, 0, '', []);
+}
+
+// Whether any edge of one ring touches or crosses any edge of the other
+export function ringsIntersect(a: Position[], b: Position[]): boolean {
+  for (let i = 1; i < a.length; i++) {
+    for (let j = 1; j < b.length; j++) {
+      if (segmentsIntersect(a[i - 1], a[i], b[j - 1], b[j])) return true;
+    }
+  }
+  return false;
+}
+
+// Returns whether the ring is usable as a polygon boundary (enough points, some area)
+function checkRing(ring: Position[], isOuter: boolean, offset: number, label: string, problems: TopologyProblem[]): boolean {
+  checkDuplicates(ring, offset, label, problems);
+
+  const start = ring.length > 0 ? toCoordinate(ring[0]) : [0, 0] as [number, number];
+  if (ring.length < 4) {
+    problems.push({
+      issue: 'too_few_points',
+      coordinateIndex: offset,
+      coordinate: start,
+      message: `${label}: has ${ring.length} position(s), a closed ring needs at least 4`
+    });
+    return false;
+  }
+
+  if (isCollinear(ring)) {
+    problems.push({
+      issue: 'zero_area',
+      coordinateIndex: offset,
+      coordinate: start,
+      message: `${label}: encloses no area (all vertices are collinear or repeated)`
+    });
+    return false;
+  }
+
+  // The orientation of a self-intersecting ring (e.g. a bow-tie) is not meaningful
+  if (checkSelfIntersections(ring, offset, label, problems)) {
+    return true;
+  }
+
+  // RFC 7946: exterior rings counter-clockwise, holes clockwise
+  const area = ringSignedArea(ring);
+  if (isOuter !== area > 0) {
+    problems.push({
+      issue: 'wrong_winding',
+      coordinateIndex: offset,
+      coordinate: start,
+      message: `${label}: is ${area > 0 ? 'counter-clockwise' : 'clockwise'}, expected ${isOuter ? 'counter-clockwise' : 'clockwise'} (RFC 7946 right-hand rule)`
+    });
+  }
+  return true;
+}
+
+// Holes must lie inside their outer ring. Reports the first hole vertex outside the shell, or
+// else the first hole edge crossing the shell (between two vertices inside it). A hole may touch
+// the shell.
+function checkHoleInShell(hole: Position[], shell: Position[], offset: number, label: string, problems: TopologyProblem[]) {
+  for (let i = 0; i < hole.length; i++) {
+    if (!pointInRing(hole[i], shell)) {
+      problems.push({
+        issue: 'hole_outside_shell',
+        coordinateIndex: offset + i,
+        coordinate: toCoordinate(hole[i]),
+        message: `${label}: vertex ${i} lies outside the outer ring`
+      });
+      return;
+    }
+  }
+  for (let i = 1; i < hole.length; i++) {
+    for (let j = 1; j < shell.length; j++) {
+      if (segmentsCross(hole[i - 1], hole[i], shell[j - 1], shell[j])) {
+        problems.push({
+          issue: 'hole_outside_shell',
+          coordinateIndex: offset + i - 1,
+          coordinate: toCoordinate(hole[i - 1]),
+          message: `${label}: edge ${i - 1}-${i} crosses the outer ring`
+        });
+        return;
+      }
+    }
+  }
+}
+
+// Check the rings of a (multi)polygon, or the path of a line, for topology problems.
+// Positions are expected to be validated and rings closed already.
+export function checkTopology(geometry: GeoJSONGeometry): TopologyProblem[] {
+  const problems: TopologyProblem[] = [];
+
+  if (geometry.type === 'LineString') {
+    const line = geometry.coordinates as Position[];
+    checkDuplicates(line, 0, 'Line', problems);
+    if (line.length < 2) {
+      problems.push({
+        issue: 'too_few_points',
+        coordinateIndex: 0,
+        coordinate: line.length > 0 ? toCoordinate(line[0]) : [0, 0],
+        message: `Line: has ${line.length} position(s), a line needs at least 2`
+      });
+    }
+    return problems;
+  }
+
+  const polygons = getPolygons(geometry);
+  let offset = 0;
+  polygons.forEach((rings, polygonIndex) => {
+    let shellIsValid = false;
+    rings.forEach((ring, ringIndex) => {
+      const ringLabel = ringIndex === 0 ? 'Outer ring' : `Hole ${ringIndex}`;
+      const label = polygons.length > 1 ? `Polygon ${polygonIndex + 1}, ${ringLabel.toLowerCase()}` : ringLabel;
+      const isValid = checkRing(ring, ringIndex === 0, offset, label, problems);
+      if (ringIndex === 0) {
+        shellIsValid = isValid;
+      } else if (isValid && shellIsValid) {
+        checkHoleInShell(ring, rings[0], offset, label, problems);
+      }
+      offset += ring.length;
+    });
+  });
+
+  return problems;
+}
+
+// Rewind (multi)polygon rings to the RFC 7946 right-hand rule: exterior rings
+// counter-clockwise, holes clockwise. Other geometries are returned unchanged.
+export function rewindGeometry(geometry: GeoJSONGeometry): GeoJSONGeometry {
+  const rewindRings = (rings: Position[][]) => rings.map((ring, i) => {
+    const area = ringSignedArea(ring);
+    if (area === 0 || (i === 0) === area > 0) return ring;
+    return ring.slice().reverse();
+  });
+
+  if (geometry.type === 'Polygon') {
+    return { type: 'Polygon', coordinates: rewindRings(geometry.coordinates as Position[][]) };
+  }
+  if (geometry.type === 'MultiPolygon') {
+    return { type: 'MultiPolygon', coordinates: (geometry.coordinates as Position[][][]).map(rewindRings) };
+  }
+  return geometry;
+}
@@ -0,0 +1,214 @@
+export type ValidationIssue =
+  | 'invalid_latitude'
+  | 'invalid_longitude'
+  | 'both_invalid'
+  | 'invalid_json'
+  | 'invalid_wkt' // Polygon field looked like WKT but could not be parsed
+  | 'invalid_geometry' // Polygon field held a malformed or unsupported GeoJSON geometry or nested coordinate arrays
+  | 'self_intersection' // Two edges of a ring touch or cross
+  | 'too_few_points' // Ring with fewer than 4 positions (or line with fewer than 2)
+  | 'wrong_winding' // Ring orientation does not follow the RFC 7946 right-hand rule
+  | 'duplicate_vertex' // Vertex repeats the previous one
+  | 'zero_area' // Ring encloses no area
+  | 'hole_outside_shell' // Hole of a polygon is not inside its outer ring
+  | 'swapped_axes' // Latitude and longitude look exchanged
+  // Dataset-level issues between two features, found after conversion
+  | 'overlap' // Polygons of two stations overlap
+  | 'contained' // A station's polygon lies entirely inside another station's polygon
+  | 'duplicate_name' // Two stations share a name (ignoring case and surrounding spaces)
+  | 'duplicate_id' // Two stations share an id
+  | 'duplicate_geometry'; // Two stations have identical geometries
+
+// Coordinate values may arrive as numbers or numeric strings (e.g. from CSV)
+export interface CoordinatePoint {
+  lat?: number | string;
+  lng?: number | string;
+  long?: number | string;
+  latitude?: number | string;
+  longitude?: number | string;
+  lon?: number | string;
+}
+
+export type GeometryType = 'Point' | 'LineString' | 'Polygon' | 'MultiPolygon';
+
+export interface GeoJSONGeometry {
+  type: GeometryType;
+  coordinates: number[] | number[][] | number[][][] | number[][][][];
+}
+
+export type GeometryInput = string | CoordinatePoint[] | CoordinatePoint[][] | CoordinatePoint[][][] | GeoJSONGeometry;
+
+export interface FeatureData {
+  name: string;
+  // Coordinate objects (as an array or stringified JSON), a WKT string, or a GeoJSON geometry.
+  // Coordinate arrays may be nested: a list of rings (outer ring, then holes) or of polygons.
+  // A single coordinate becomes a Point.
+  polygon?: GeometryInput;
+  line?: GeometryInput; // Open path, used instead of polygon for LineString features
+  path?: GeometryInput; // Same as line
+  geometry_type?: string; // Point, LineString, Polygon or MultiPolygon; inferred when missing
+  id?: number;
+  id_landmark?: number;
+  address?: string;
+  type?: string;
+  created_at?: string;
+  updated_at?: string;
+  is_active?: boolean;
+  is_deleted?: boolean;
+  [key: string]: any;
+}
+
+export interface AreaData {
+  area_list: FeatureData[];
+  id?: number;
+  area_name?: string;
+  [key: string]: any;
+}
+
+// Controls which source attributes end up in feature properties
+export interface PropertyMapping {
+  include?: string[]; // Whitelist of property names (after prefixing, before renaming)
+  exclude?: string[]; // Property names to drop (after prefixing, before renaming)
+  rename?: { [from: string]: string }; // Output name overrides
+  areaPrefix?: string; // Prefix for parent area fields, defaults to 'area_'
+  includeAreaFields?: boolean; // Merge parent area fields, defaults to true
+}
+
+export interface Marker {
+  lat: number;
+  lng: number;
+  name: string;
+}
+
+export interface GeoJSONFeature {
+  type: 'Feature';
+  properties: {
+    name: string;
+    [key: string]: any;
+  };
+  geometry: GeoJSONGeometry;
+}
+
+// How invalid coordinates and unparseable polygons are handled
+export type InvalidDataPolicy = 'keep' | 'drop_vertex' | 'drop_feature' | 'fail';
+
+// What was done about a warning: the data was kept as-is (NaN values replaced by 0), the vertex
+// or the whole feature was left out, the request failed, or the data was corrected
+export type WarningAction = 'kept' | 'vertex_dropped' | 'feature_dropped' | 'failed' | 'fixed';
+
+export interface CoordinateWarning {
+  featureIndex: number; // -1 indicates a custom marker
+  featureName: string;
+  coordinateIndex: number; // -1 indicates a polygon parsing error
+  coordinate: [number, number];
+  issue: ValidationIssue;
+  message: string;
+  action: WarningAction;
+  row?: number; // CSV row number (header is row 1), for CSV input
+  relatedFeatureIndex?: number; // The other feature of a dataset-level issue
+  overlapArea_m2?: number; // For overlap and contained
+  overlap?: GeoJSONGeometry; // The overlapping region, for overlap and contained
+}
+
+// [minLng, minLat, maxLng, maxLat]
+export type BBox = [number, number, number, number];
+
+// The 2008 GeoJSON "crs" member, e.g. { type: 'name', properties: { name: 'urn:ogc:def:crs:EPSG::3857' } }.
+// RFC 7946 removed it; it is only written for output in a CRS other than WGS84.
+export interface NamedCRS {
+  type: 'name';
+  properties: { name: string };
+}
+
+export interface GeoJSONResponse {
+  type: 'FeatureCollection';
+  crs?: NamedCRS;
+  bbox?: BBox; // RFC 7946 bounding box of all features
+  features: GeoJSONFeature[];
+}
+
+// Formats the station data can be supplied in
+export type InputFormat = 'json' | 'csv';
+
+// Which CSV columns hold the vertex data. Rows are grouped into one station per distinct
+// value of the group column and ordered by the sequence column.
+export interface CSVMapping {
+  group: string;
+  name?: string; // Defaults to the group value
+  sequence?: string; // Defaults to file order
+  lat: string;
+  lng: string;
+}
+
+// Where the stations are in JSON of another shape, as JSONPath-like paths: keys separated by
+// dots, [n] for an array element and [*] (or .*) for every element or value, with an optional
+// leading "$". E.g. { features: "$.data.stations[*]", name: "title", polygon: "geofence.points" }.
+export interface SchemaMapping {
+  group?: string; // Path from the root to the parent groups (merged in like areas)
+  features: string; // Path to the station list, from the root or from each group
+  name: string; // Path from a station to its name
+  polygon: string; // Path from a station to its coordinates (any form the polygon field accepts)
+  lat?: string; // Path from a coordinate object to its latitude, with lng
+  lng?: string; // Path from a coordinate object to its longitude, with lat
+}
+
+// File formats the converted FeatureCollection can be exported as
+export type OutputFormat = 'geojson' | 'kml' | 'shapefile';
+
+// Framing of the request body for streaming conversion: one station or area per line, or a
+// JSON array (which may arrive in chunks)
+export type StreamInputFormat = 'ndjson' | 'json';
+
+// Streaming output: a GeoJSON text sequence (RFC 8142) or one FeatureCollection
+export type StreamOutputFormat = 'geojson-seq' | 'geojson';
+
+export interface ConvertOptions {
+  includeMarkers?: boolean;
+  markers?: Marker[];
+  propertyMapping?: PropertyMapping;
+  rewind?: boolean; // Rewind polygon rings to the RFC 7946 right-hand rule
+  invalidData?: InvalidDataPolicy; // Defaults to 'keep'
+  includeMetrics?: boolean; // Add area_m2, perimeter_m, centroid and bbox to polygon properties
+  fixSwappedAxes?: boolean; // Exchange latitude and longitude of stations reported as swapped_axes
+  simplify?: SimplifyOptions;
+  sourceCrs?: string; // EPSG code of the input coordinates, defaults to 'EPSG:4326'
+  targetCrs?: string; // EPSG code of the output coordinates, defaults to 'EPSG:4326'
+  analyzeDataset?: boolean; // Look for overlaps and duplicates between stations, defaults to true
+}
+
+export type SimplifyAlgorithm = 'douglas-peucker' | 'visvalingam';
+
+export interface SimplifyOptions {
+  tolerance: number; // Metres; 0 turns simplification off
+  algorithm?: SimplifyAlgorithm; // Defaults to 'douglas-peucker'
+  preserveTopology?: boolean; // Never let a ring self-intersect, cross another ring or collapse
+}
+
+// Vertex counts of one simplified feature
+export interface SimplifyReport {
+  featureIndex: number;
+  featureName: string;
+  verticesBefore: number;
+  verticesAfter: number;
+}
+
+// A feature found for a lookup point
+export interface LookupMatch {
+  featureIndex: number; // Index in the FeatureCollection
+  properties: GeoJSONFeature['properties'];
+  distance_m: number; // 0 when the point lies inside or on the feature
+}
+
+export interface LookupResult {
+  coordinate: [number, number]; // [lng, lat] of the lookup point
+  // Every feature containing the point, or else the nearest one within maxDistance
+  matches: LookupMatch[];
+  error?: string; // Set when the point is not a valid coordinate
+}
+
+export interface ConvertResult {
+  geojson: GeoJSONResponse;
+  featureIndexes: number[]; // The featureIndex (as in warnings) of every output feature, -1 for markers
+  warnings: CoordinateWarning[];
+  simplification?: SimplifyReport[]; // Only when simplification is on
+}
@@ -0,0 +1,68 @@
+import type { ValidationIssue } from './types';
+
+export interface CoordinateValidation {
+  isValid: boolean;
+  issue?: ValidationIssue;
+  message?: string;
+}
+
+// Parse a coordinate value that may arrive as a number or a numeric string
+export function toNumber(value: any): number {
+  return typeof value === 'number' ? value : parseFloat(value);
+}
+
+// Coordinate validation function
+export function validateCoordinate(lat: any, lng: any): CoordinateValidation {
+  // Check if coordinates are valid numbers
+  const latNum = toNumber(lat);
+  const lngNum = toNumber(lng);
+
+  const latIsNumber = !isNaN(latNum) && isFinite(latNum);
+  const lngIsNumber = !isNaN(lngNum) && isFinite(lngNum);
+
+  if (!latIsNumber && !lngIsNumber) {
+    return {
+      isValid: false,
+      issue: 'both_invalid',
+      message: `Invalid coordinates: latitude "${lat}" and longitude "${lng}" are not valid numbers`
+    };
+  } else if (!latIsNumber) {
+    return {
+      isValid: false,
+      issue: 'invalid_latitude',
+      message: `Invalid latitude: "${lat}" is not a valid number`
+    };
+  } else if (!lngIsNumber) {
+    return {
+      isValid: false,
+      issue: 'invalid_longitude',
+      message: `Invalid longitude: "${lng}" is not a valid number`
+    };
+  }
+
+  // Now check ranges with valid numbers
+  const latValid = latNum >= -90 && latNum <= 90;
+  const lngValid = lngNum >= -180 && lngNum <= 180;
+
+  if (!latValid && !lngValid) {
+    return {
+      isValid: false,
+      issue: 'both_invalid',
+      message: `Invalid coordinates: latitude ${latNum} (must be -90 to 90), longitude ${lngNum} (must be -180 to 180)`
+    };
+  } else if (!latValid) {
+    return {
+      isValid: false,
+      issue: 'invalid_latitude',
+      message: `Invalid latitude: ${latNum} (must be between -90 and 90 degrees)`
+    };
+  } else if (!lngValid) {
+    return {
+      isValid: false,
+      issue: 'invalid_longitude',
+      message: `Invalid longitude: ${lngNum} (must be between -180 and 180 degrees)`
+    };
+  }
+
+  return { isValid: true };
+}
@@ -0,0 +1,61 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { looksLikeWKT, parseWKT, toWKT } from './wkt';
+import type { GeoJSONGeometry } from './types';
+
+describe('looksLikeWKT', () => {
+  it('accepts supported geometry keywords', () => {
+    assert.ok(looksLikeWKT('POLYGON((106.8 -6.21, 106.81 -6.21, 106.81 -6.2, 106.8 -6.21))'));
+    assert.ok(looksLikeWKT('  multipolygon Z (((1 2 3, 4 5 6, 7 8 9, 1 2 3)))'));
+    assert.ok(looksLikeWKT('SRID=4326;POINT(106.8 -6.21)'));
+  });
+
+  it('rejects JSON and unknown keywords', () => {
+    assert.ok(!looksLikeWKT('[{"lat": -6.21, "long": 106.8}]'));
+    assert.ok(!looksLikeWKT('CIRCLE(106.8 -6.21, 5)'));
+  });
+});
+
+describe('parseWKT', () => {
+  it('parses each supported geometry type', () => {
+    assert.deepEqual(parseWKT('POINT(106.8 -6.21)'), { type: 'Point', coordinates: [106.8, -6.21] });
+    assert.deepEqual(parseWKT('LINESTRING (1 2, 3 4)'), { type: 'LineString', coordinates: [[1, 2], [3, 4]] });
+    assert.deepEqual(parseWKT('POLYGON((0 0, 1 0, 1 1, 0 0), (0.2 0.1, 0.8 0.7, 0.8 0.1, 0.2 0.1))'), {
+      type: 'Polygon',
+      coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]], [[0.2, 0.1], [0.8, 0.7], [0.8, 0.1], [0.2, 0.1]]]
+    });
+    assert.deepEqual(parseWKT('MULTIPOLYGON(((0 0, 1 0, 1 1, 0 0)), ((2 2, 3 2, 3 3, 2 2)))'), {
+      type: 'MultiPolygon',
+      coordinates: [[[[0, 0], [1, 0], [1, 1], [0, 0]]], [[[2, 2], [3, 2], [3, 3], [2, 2]]]]
+    });
+  });
+
+  it('drops Z and M values and the SRID prefix', () => {
+    assert.deepEqual(parseWKT('SRID=4326;LINESTRING ZM (1 2 3 4, 5 6 7 8)'), { type: 'LineString', coordinates: [[1, 2], [5, 6]] });
+  });
+
+  it('reads exponents and signs', () => {
+    assert.deepEqual(parseWKT('POINT(1.068e2 -6.21E0)'), { type: 'Point', coordinates: [106.8, -6.21] });
+  });
+
+  it('describes invalid input', () => {
+    assert.throws(() => parseWKT('GEOMETRYCOLLECTION(POINT(1 2))'), /Unsupported WKT geometry type/);
+    assert.throws(() => parseWKT('POLYGON EMPTY'), /POLYGON is EMPTY/);
+    assert.throws(() => parseWKT('POLYGON((0 0, 1 0'), /Expected "," or "\)"/);
+    assert.throws(() => parseWKT('POINT(1)'), /Expected a coordinate pair/);
+    assert.throws(() => parseWKT('POINT(1 2) x'), /Unexpected trailing characters/);
+  });
+});
+
+describe('toWKT', () => {
+  it('writes geometries that parse back unchanged', () => {
+    const geometries: GeoJSONGeometry[] = [
+      { type: 'Point', coordinates: [106.8, -6.21] },
+      { type: 'LineString', coordinates: [[106.8, -6.21], [106.81, -6.2]] },
+      { type: 'Polygon', coordinates: [[[0, 0], [1, 0], [1, 1], [0, 0]]] },
+      { type: 'MultiPolygon', coordinates: [[[[0, 0], [1, 0], [1, 1], [0, 0]]], [[[2, 2], [3, 2], [3, 3], [2, 2]]]] }
+    ];
+    assert.equal(toWKT(geometries[2]), 'POLYGON((0 0, 1 0, 1 1, 0 0))');
+    geometries.forEach(geometry => assert.deepEqual(parseWKT(toWKT(geometry)), geometry));
+  });
+});
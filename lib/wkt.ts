@@ -0,0 +1,115 @@
+import type { GeoJSONGeometry } from './types';
+
+const WKT_TYPES: { [keyword: string]: GeoJSONGeometry['type'] } = {
+  POINT: 'Point',
+  LINESTRING: 'LineString',
+  POLYGON: 'Polygon',
+  MULTIPOLYGON: 'MultiPolygon',
+};
+
+// Matches an optional EWKT SRID prefix, the geometry keyword and an optional Z/M/ZM dimension
+const WKT_HEADER = /^\s*(?:SRID=\d+\s*;\s*)?([A-Za-z]+)(?:\s+(ZM|Z|M))?\s*/i;
+
+// Quick check used to tell WKT apart from JSON in the polygon field
+export function looksLikeWKT(text: string): boolean {
+  const match = text.match(WKT_HEADER);
+  return !!match && /^(MULTI)?(POINT|LINESTRING|POLYGON)$/i.test(match[1]);
+}
+
+// Parse a WKT geometry (POINT, LINESTRING, POLYGON or MULTIPOLYGON) into a GeoJSON geometry.
+// Z and M values are dropped. Throws with a description of the problem on invalid input.
+export function parseWKT(text: string): GeoJSONGeometry {
+  const header = text.match(WKT_HEADER);
+  if (!header) {
+    throw new Error('Missing geometry type');
+  }
+
+  const keyword = header[1].toUpperCase();
+  const type = WKT_TYPES[keyword];
+  if (!type) {
+    throw new Error(`Unsupported WKT geometry type "${header[1]}" (expected POINT, LINESTRING, POLYGON or MULTIPOLYGON)`);
+  }
+
+  const body = text.slice(header[0].length).trim();
+  if (/^EMPTY$/i.test(body)) {
+    throw new Error(`${keyword} is EMPTY`);
+  }
+
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at position ${header[0].length + position} in ${keyword}`);
+  };
+
+  const skipWhitespace = () => {
+    while (position < body.length && /\s/.test(body[position])) position++;
+  };
+
+  const readPosition = (): number[] => {
+    const numbers: number[] = [];
+    skipWhitespace();
+    while (position < body.length && /[-+0-9.eE]/.test(body[position])) {
+      const start = position;
+      while (position < body.length && /[-+0-9.eE]/.test(body[position])) position++;
+      const value = Number(body.slice(start, position));
+      if (isNaN(value)) fail(`Invalid number "${body.slice(start, position)}"`);
+      numbers.push(value);
+      skipWhitespace();
+    }
+    if (numbers.length < 2) fail('Expected a coordinate pair');
+    return numbers.slice(0, 2);
+  };
+
+  // A parenthesised, comma separated list of nested lists or positions
+  const readList = (depth: number): any[] => {
+    skipWhitespace();
+    if (body[position] !== '(') fail('Expected "("');
+    position++;
+
+    const items: any[] = [];
+    for (;;) {
+      skipWhitespace();
+      items.push(depth === 1 ? readPosition() : readList(depth - 1));
+      skipWhitespace();
+      if (body[position] === ',') {
+        position++;
+      } else if (body[position] === ')') {
+        position++;
+        return items;
+      } else {
+        fail('Expected "," or ")"');
+      }
+    }
+  };
+
+  let coordinates: any;
+  if (type === 'Point') {
+    const positions = readList(1);
+    if (positions.length !== 1) fail('POINT must have exactly one coordinate');
+    coordinates = positions[0];
+  } else if (type === 'LineString') {
+    coordinates = readList(1);
+  } else if (type === 'Polygon') {
+    coordinates = readList(2);
+  } else {
+    coordinates = readList(3);
+  }
+
+  skipWhitespace();
+  if (position < body.length) {
+    fail('Unexpected trailing characters');
+  }
+
+  return { type, coordinates };
+}
+
+// Write a GeoJSON geometry as WKT, e.g. POLYGON((106.86 -6.24, ...)). Only x and y are written.
+export function toWKT(geometry: GeoJSONGeometry): string {
+  const keyword = Object.keys(WKT_TYPES).filter(key => WKT_TYPES[key] === geometry.type)[0];
+  const write = (value: any, depth: number): string => depth === 0
+    ? `${value[0]} ${value[1]}`
+    : `(${value.map((item: any) => write(item, depth - 1)).join(', ')})`;
+  const depth = { Point: 1, LineString: 1, Polygon: 2, MultiPolygon: 3 }[geometry.type];
+  const coordinates = geometry.type === 'Point' ? [geometry.coordinates] : geometry.coordinates;
+  return `${keyword}${write(coordinates, depth)}`;
+}
@@ -0,0 +1,157 @@
+import { collectSourceFeatures, GEOMETRY_FIELDS, isNestedInput, SourceFeature } from './converter';
+import type { Position } from './geometry';
+import { checkTopology } from './topology';
+import type { AreaData, CoordinateWarning, FeatureData, GeoJSONGeometry } from './types';
+import { looksLikeWKT, toWKT } from './wkt';
+
+// Coordinate field names, in the order they are looked for in existing coordinate objects
+const LAT_KEYS = ['lat', 'latitude'];
+const LNG_KEYS = ['long', 'lng', 'lon', 'longitude'];
+
+// The innermost array at the start of a value, e.g. the first ring of an array of polygons
+function firstList(value: any[]): any[] {
+  let list = value;
+  while (Array.isArray(list[0])) list = list[0];
+  return list;
+}
+
+function arrayDepth(value: any): number {
+  let depth = 0;
+  for (let item = value; Array.isArray(item); item = item[0]) depth++;
+  return depth;
+}
+
+// Coordinate objects nested like the original array: the same key names, as deep as the
+// original where the geometry allows it, and rings closed only when the original's were
+function encodePoints(original: any[], geometry: GeoJSONGeometry): any[] {
+  const sample = firstList(original);
+  const firstPoint = sample[0] && typeof sample[0] === 'object' ? sample[0] : {};
+  const latKey = LAT_KEYS.filter(key => key in firstPoint)[0] || 'lat';
+  const lngKey = LNG_KEYS.filter(key => key in firstPoint)[0] || 'long';
+  const lastPoint = sample[sample.length - 1];
+  const closed = sample.length > 1 && lastPoint && String(lastPoint[latKey]) === String(firstPoint[latKey]) &&
+    String(lastPoint[lngKey]) === String(firstPoint[lngKey]);
+  const depth = arrayDepth(original);
+
+  const point = (position: Position) => ({ [latKey]: position[1], [lngKey]: position[0] });
+  const ring = (positions: Position[]) => (closed ? positions : positions.slice(0, -1)).map(point);
+
+  switch (geometry.type) {
+    case 'Point':
+      return [point(geometry.coordinates as Position)];
+    case 'LineString':
+      return (geometry.coordinates as Position[]).map(point);
+    case 'Polygon': {
+      const rings = (geometry.coordinates as Position[][]).map(ring);
+      return depth <= 1 && rings.length === 1 ? rings[0] : rings;
+    }
+    case 'MultiPolygon': {
+      const polygons = (geometry.coordinates as Position[][][]).map(polygon => polygon.map(ring));
+      if (polygons.length > 1 || depth >= 3) return polygons;
+      return depth <= 1 && polygons[0].length === 1 ? polygons[0][0] : polygons[0];
+    }
+  }
+}
+
+// Encode a geometry in the form of an existing geometry field value: WKT (keeping an SRID
+// prefix), a GeoJSON geometry or Feature, (nested) coordinate objects, or any of these as a
+// JSON string
+export function encodeGeometryLike(original: any, geometry: GeoJSONGeometry): any {
+  if (typeof original === 'string') {
+    const text = original.trim();
+    if (looksLikeWKT(text)) {
+      const srid = /^SRID=\d+\s*;\s*/i.exec(text);
+      return `${srid ? srid[0].trim() : ''}${toWKT(geometry)}`;
+    }
+    let parsed: any = [];
+    try {
+      parsed = JSON.parse(text);
+    } catch (parseError) {
+      // An unreadable value is replaced by coordinate objects
+    }
+    return JSON.stringify(encodeGeometryLike(parsed, geometry));
+  }
+  if (original && typeof original === 'object' && !Array.isArray(original)) {
+    if (original.type === 'Feature') {
+      return { ...original, geometry };
+    }
+    if ('type' in original) {
+      return { type: geometry.type, coordinates: geometry.coordinates };
+    }
+  }
+  return encodePoints(Array.isArray(original) ? original : [], geometry);
+}
+
+// A copy of the parsed input, and the station with the given featureIndex (as in warnings) in it
+function findSource(data: unknown, featureIndex: number): { copy: any[]; source: SourceFeature } {
+  const copy = JSON.parse(JSON.stringify(data));
+  const source = collectSourceFeatures(copy).filter(item => item.featureIndex === featureIndex)[0];
+  if (!source) {
+    throw new Error(`No station with index ${featureIndex} in the input`);
+  }
+  return { copy, source };
+}
+
+// The input with a station's geometry replaced, written in the form of the station's geometry
+// field. Positions are written as they are, so reproject them to the input CRS first.
+export function updateInputGeometry(data: unknown, featureIndex: number, geometry: GeoJSONGeometry): unknown {
+  const { copy, source } = findSource(data, featureIndex);
+  const field = GEOMETRY_FIELDS.filter(key => source.feature[key])[0];
+  source.feature[field] = encodeGeometryLike(source.feature[field], geometry);
+  return copy;
+}
+
+// The input without a station. Later stations move up one featureIndex.
+export function removeInputFeature(data: unknown, featureIndex: number): unknown {
+  const { copy, source } = findSource(data, featureIndex);
+  const list: FeatureData[] = source.area ? source.area.area_list : copy;
+  list.splice(list.indexOf(source.feature), 1);
+  return copy;
+}
+
+// The warnings left after a station is deleted: its own warnings and those of dataset issues
+// involving it are dropped. When the input was rewritten, later stations move up one
+// featureIndex, as in removeInputFeature.
+export function removeFeatureWarnings(warnings: CoordinateWarning[], featureIndex: number, shifted: boolean): CoordinateWarning[] {
+  const shift = (index: number) => (shifted && index > featureIndex ? index - 1 : index);
+  return warnings
+    .filter(warning => warning.featureIndex !== featureIndex && warning.relatedFeatureIndex !== featureIndex)
+    .map(warning => ({
+      ...warning,
+      featureIndex: shift(warning.featureIndex),
+      ...(warning.relatedFeatureIndex !== undefined ? { relatedFeatureIndex: shift(warning.relatedFeatureIndex) } : {})
+    }));
+}
+
+// The warnings after a station's geometry is edited or drawn on the map: its earlier warnings
+// and those of dataset issues involving it are dropped, and its rings are checked again as in
+// the conversion
+export function revalidateFeatureWarnings(warnings: CoordinateWarning[], featureIndex: number, featureName: string, geometry: GeoJSONGeometry): CoordinateWarning[] {
+  const problems = checkTopology(geometry).map((problem): CoordinateWarning => ({
+    featureIndex,
+    featureName,
+    ...problem,
+    action: 'kept'
+  }));
+  return removeFeatureWarnings(warnings, featureIndex, false).concat(problems);
+}
+
+// The input with a new station at the end (of the last area, for nested input), its polygon
+// written in the form of the first station's. Returns the new station's featureIndex.
+export function appendInputFeature(data: unknown, name: string, geometry: GeoJSONGeometry): { data: unknown; featureIndex: number } {
+  const copy = JSON.parse(JSON.stringify(data));
+  const sources = collectSourceFeatures(copy);
+  const template = sources.length > 0 ? sources[0].feature : null;
+  const station: FeatureData = {
+    name,
+    polygon: encodeGeometryLike(template ? template[GEOMETRY_FIELDS.filter(key => template[key])[0]] : [], geometry)
+  };
+
+  const areas = (copy as AreaData[]).filter(item => item && Array.isArray(item.area_list));
+  if (isNestedInput(copy) && areas.length > 0) {
+    areas[areas.length - 1].area_list.push(station);
+  } else {
+    copy.push(station);
+  }
+  return { data: copy, featureIndex: sources.length };
+}
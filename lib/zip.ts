@@ -0,0 +1,95 @@
+// Minimal ZIP writer (store method, no compression), usable both in the browser and on the server
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+let crcTable: number[] | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = [];
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable.push(c >>> 0);
+    }
+  }
+
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// MS-DOS date/time format used in ZIP headers
+function dosDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): ArrayBuffer {
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(modified);
+  const names = entries.map(entry => encoder.encode(entry.name));
+  const crcs = entries.map(entry => crc32(entry.data));
+
+  const localSize = entries.reduce((sum, entry, i) => sum + 30 + names[i].length + entry.data.length, 0);
+  const centralSize = entries.reduce((sum, _, i) => sum + 46 + names[i].length, 0);
+  const output = new Uint8Array(localSize + centralSize + 22);
+  const view = new DataView(output.buffer);
+
+  let offset = 0;
+  const localOffsets: number[] = [];
+
+  entries.forEach((entry, i) => {
+    localOffsets.push(offset);
+    view.setUint32(offset, 0x04034b50, true); // Local file header signature
+    view.setUint16(offset + 4, 20, true); // Version needed to extract
+    view.setUint16(offset + 6, 0x0800, true); // Flags: UTF-8 file names
+    view.setUint16(offset + 8, 0, true); // Compression: store
+    view.setUint16(offset + 10, time, true);
+    view.setUint16(offset + 12, date, true);
+    view.setUint32(offset + 14, crcs[i], true);
+    view.setUint32(offset + 18, entry.data.length, true); // Compressed size
+    view.setUint32(offset + 22, entry.data.length, true); // Uncompressed size
+    view.setUint16(offset + 26, names[i].length, true);
+    view.setUint16(offset + 28, 0, true); // Extra field length
+    output.set(names[i], offset + 30);
+    output.set(entry.data, offset + 30 + names[i].length);
+    offset += 30 + names[i].length + entry.data.length;
+  });
+
+  const centralOffset = offset;
+  entries.forEach((entry, i) => {
+    view.setUint32(offset, 0x02014b50, true); // Central directory header signature
+    view.setUint16(offset + 4, 20, true); // Version made by
+    view.setUint16(offset + 6, 20, true); // Version needed to extract
+    view.setUint16(offset + 8, 0x0800, true);
+    view.setUint16(offset + 10, 0, true);
+    view.setUint16(offset + 12, time, true);
+    view.setUint16(offset + 14, date, true);
+    view.setUint32(offset + 16, crcs[i], true);
+    view.setUint32(offset + 20, entry.data.length, true);
+    view.setUint32(offset + 24, entry.data.length, true);
+    view.setUint16(offset + 28, names[i].length, true);
+    // Extra field, comment, disk number, attributes: all zero
+    view.setUint32(offset + 42, localOffsets[i], true);
+    output.set(names[i], offset + 46);
+    offset += 46 + names[i].length;
+  });
+
+  view.setUint32(offset, 0x06054b50, true); // End of central directory signature
+  view.setUint16(offset + 8, entries.length, true); // Entries on this disk
+  view.setUint16(offset + 10, entries.length, true); // Total entries
+  view.setUint32(offset + 12, centralSize, true);
+  view.setUint32(offset + 16, centralOffset, true);
+
+  return output.buffer as ArrayBuffer;
+}